@@ -0,0 +1,306 @@
+// Retrieval quality benchmark: runs the golden queries (benchmarks/retrieval/golden-v*.json) through the app's
+// retrieval pipeline under several configurations and reports recall@k, MRR and nDCG@k for each.
+// Vector search uses the local store when VECTOR_STORE=local, otherwise Supabase; query embeddings come from
+// the server's default embedding provider, so the API server does not need to be running.
+//
+//   npm run benchmark:retrieval -- --thresholds 0.5,0.6,0.7 --k 3,5 --modes hybrid,vector --diversity 0,0.3
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { parseArgs } from 'util';
+import { resolveProvider } from '../server/providers/index.js';
+import {
+  createBm25Index,
+  DEFAULT_DIVERSITY,
+  DEFAULT_EXAMPLE_COUNT,
+  rankHybridCandidates,
+  RETRIEVAL_CANDIDATE_MULTIPLIER,
+  selectDiverse,
+  VECTOR_MATCH_THRESHOLD
+} from '../src/lib/hybridRetrieval.js';
+import { loadConfig } from './cli/config.js';
+import { createStoreTarget } from './cli/target.js';
+
+const DEFAULT_GOLDEN_PATH = 'benchmarks/retrieval/golden-v1.json';
+const DEFAULT_REPORT_DIR = 'benchmarks/retrieval/reports';
+
+// Versioned golden set; bump the version (and the file name) whenever queries or grades change
+interface GoldenSet {
+  version: number;
+  description: string;
+  corpus: string;
+  queries: GoldenQuery[];
+}
+
+interface GoldenQuery {
+  id: string;
+  query: string;
+  anchor?: string; // Primary anchor, as the form would send it; drives the exact-anchor rerank boost
+  relevant: Record<string, number>; // Company -> grade (3 best); unlisted companies are irrelevant
+}
+
+type RetrieverMode = 'hybrid' | 'vector' | 'lexical';
+
+interface RetrieverConfig {
+  mode: RetrieverMode;
+  threshold: number | null; // Vector match_threshold; null for lexical-only
+  k: number; // Examples returned, as in the form's example count
+  diversity: number; // MMR weight; 0 keeps the reranked order
+}
+
+interface QueryResult {
+  id: string;
+  retrieved: string[];
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+}
+
+interface ConfigResult {
+  config: RetrieverConfig;
+  current: boolean; // The configuration the app ships with
+  recall: number;
+  mrr: number;
+  ndcg: number;
+  queries: QueryResult[];
+}
+
+// Share of the relevant examples that were retrieved
+function recall(retrieved: string[], relevant: Record<string, number>): number {
+  const relevantCount = Object.values(relevant).filter(grade => grade > 0).length;
+  if (relevantCount === 0) return 0;
+  return retrieved.filter(company => (relevant[company] || 0) > 0).length / relevantCount;
+}
+
+// 1 / rank of the first relevant example; 0 when none was retrieved
+function reciprocalRank(retrieved: string[], relevant: Record<string, number>): number {
+  const index = retrieved.findIndex(company => (relevant[company] || 0) > 0);
+  return index < 0 ? 0 : 1 / (index + 1);
+}
+
+// Graded nDCG@k with exponential gain, against the ideal ordering of the graded examples
+function ndcg(retrieved: string[], relevant: Record<string, number>, k: number): number {
+  const dcg = (grades: number[]) =>
+    grades.slice(0, k).reduce((sum, grade, index) => sum + (2 ** grade - 1) / Math.log2(index + 2), 0);
+  const ideal = dcg(Object.values(relevant).sort((a, b) => b - a));
+  return ideal === 0 ? 0 : dcg(retrieved.map(company => relevant[company] || 0)) / ideal;
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+
+function parseCli(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    options: {
+      golden: { type: 'string' },
+      out: { type: 'string' },
+      modes: { type: 'string' },
+      thresholds: { type: 'string' },
+      k: { type: 'string' },
+      diversity: { type: 'string' }
+    }
+  }).values;
+}
+
+type BenchmarkFlags = ReturnType<typeof parseCli>;
+
+// Comma-separated values of a --flag, or the defaults
+function listFlag<T>(name: string, value: string | undefined, parse: (value: string) => T, defaults: T[]): T[] {
+  if (value === undefined) return defaults;
+  const values = value.split(',').filter(Boolean).map(parse);
+  if (values.length === 0) throw new Error(`--${name} needs a comma-separated list`);
+  return values;
+}
+
+function parseMode(value: string): RetrieverMode {
+  if (value !== 'hybrid' && value !== 'vector' && value !== 'lexical') {
+    throw new Error(`Unknown mode "${value}"; use hybrid, vector or lexical`);
+  }
+  return value;
+}
+
+function parseNumber(value: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new Error(`"${value}" is not a number`);
+  return number;
+}
+
+// Every combination of the flags; lexical-only runs ignore the threshold
+function buildConfigs(flags: BenchmarkFlags): RetrieverConfig[] {
+  const modes = listFlag<RetrieverMode>('modes', flags.modes, parseMode, ['hybrid', 'vector', 'lexical']);
+  const thresholds = listFlag('thresholds', flags.thresholds, parseNumber, [0.5, 0.6, 0.7, 0.8]);
+  const ks = listFlag('k', flags.k, value => Math.max(1, Math.round(parseNumber(value))), [DEFAULT_EXAMPLE_COUNT, 5]);
+  const diversities = listFlag('diversity', flags.diversity, parseNumber, [0, DEFAULT_DIVERSITY]);
+
+  return modes.flatMap(mode =>
+    (mode === 'lexical' ? [null] : thresholds).flatMap(threshold =>
+      ks.flatMap(k => diversities.map(diversity => ({ mode, threshold, k, diversity })))
+    )
+  );
+}
+
+function isCurrentConfig(config: RetrieverConfig): boolean {
+  return config.mode === 'hybrid' &&
+    config.threshold === VECTOR_MATCH_THRESHOLD &&
+    config.k === DEFAULT_EXAMPLE_COUNT &&
+    config.diversity === DEFAULT_DIVERSITY;
+}
+
+function describeConfig(config: RetrieverConfig): string {
+  const threshold = config.threshold === null ? '' : ` t=${config.threshold}`;
+  return `${config.mode}${threshold} k=${config.k} mmr=${config.diversity}`;
+}
+
+async function loadGoldenSet(path: string, companies: Set<string>): Promise<GoldenSet> {
+  const golden = JSON.parse(await readFile(path, 'utf-8')) as GoldenSet;
+  if (typeof golden.version !== 'number' || !Array.isArray(golden.queries)) {
+    throw new Error(`${path} is not a golden set (needs version and queries)`);
+  }
+
+  // A typo in a company name would silently count as a miss
+  const unknown = golden.queries.flatMap(query =>
+    Object.keys(query.relevant).filter(company => !companies.has(company)).map(company => `${query.id}: ${company}`)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Golden set lists companies that are not in the corpus:\n  ${unknown.join('\n  ')}`);
+  }
+  return golden;
+}
+
+function formatReport(golden: GoldenSet, goldenPath: string, sourceName: string, model: string, results: ConfigResult[]): string {
+  const fixed = (value: number) => value.toFixed(3);
+  const ranked = [...results].sort((a, b) => b.ndcg - a.ndcg || b.recall - a.recall || b.mrr - a.mrr);
+  const current = results.find(result => result.current);
+  const best = ranked[0];
+
+  const lines = [
+    `# Retrieval benchmark: ${basename(goldenPath)} (version ${golden.version})`,
+    '',
+    `- Run: ${new Date().toISOString()}`,
+    `- Queries: ${golden.queries.length}`,
+    `- Vector store: ${sourceName}; embedding model: ${model}`,
+    `- Recall and nDCG are at k; MMR diversity 0 keeps the reranked order`,
+    '',
+    '## Configurations (best nDCG first)',
+    '',
+    '| Mode | Threshold | k | MMR diversity | Recall@k | MRR | nDCG@k |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...ranked.map(({ config, current: isCurrent, recall: r, mrr, ndcg: n }) =>
+      `| ${config.mode}${isCurrent ? ' (current)' : ''} | ${config.threshold ?? '-'} | ${config.k} | ${config.diversity} | ${fixed(r)} | ${fixed(mrr)} | ${fixed(n)} |`
+    )
+  ];
+
+  const weakest = (result: ConfigResult, title: string) => {
+    const misses = result.queries.filter(query => query.ndcg < 1).sort((a, b) => a.ndcg - b.ndcg);
+    lines.push('', `## ${title}: ${describeConfig(result.config)}`, '');
+    if (misses.length === 0) {
+      lines.push('Every query retrieved its ideal examples.');
+      return;
+    }
+    lines.push('| Query | nDCG@k | Retrieved | Expected |', '| --- | --- | --- | --- |');
+    misses.forEach(query => {
+      const expected = Object.entries(golden.queries.find(entry => entry.id === query.id)!.relevant)
+        .sort((a, b) => b[1] - a[1])
+        .map(([company, grade]) => `${company} (${grade})`);
+      lines.push(`| ${query.id} | ${fixed(query.ndcg)} | ${query.retrieved.join(', ') || '-'} | ${expected.join(', ')} |`);
+    });
+  };
+
+  if (current) weakest(current, 'Imperfect queries, current configuration');
+  if (best && best !== current) weakest(best, 'Imperfect queries, best configuration');
+  return `${lines.join('\n')}\n`;
+}
+
+async function benchmarkRetrieval(argv: string[]) {
+  const flags = parseCli(argv);
+  const goldenPath = flags.golden || DEFAULT_GOLDEN_PATH;
+  // Same store selection and Supabase checks as npm run examples
+  const source = createStoreTarget(loadConfig({}));
+  const provider = resolveProvider();
+
+  const examples = await source.listExamples();
+  const golden = await loadGoldenSet(goldenPath, new Set(examples.map(example => example.company)));
+  const configs = buildConfigs(flags);
+  console.log(`🧪 ${golden.queries.length} golden queries (version ${golden.version}), ${configs.length} configurations`);
+  console.log(`🗂️  ${source.name}: ${examples.length} examples; embedding with ${provider.name} (${provider.defaultEmbeddingModel})`);
+
+  const byId = new Map(examples.map(example => [example.id, example]));
+  const index = createBm25Index(examples.map(example => ({
+    id: example.id,
+    fields: [example.tagline, example.problem, example.differentiator, ...(example.icp || [])].filter(Boolean)
+  })));
+
+  // One embedding per query, shared by every configuration
+  const embeddings = new Map<string, { embedding: number[]; model: string }>();
+  for (const query of golden.queries) {
+    embeddings.set(query.id, await provider.embed(query.query));
+  }
+  const model = embeddings.values().next().value?.model || provider.defaultEmbeddingModel;
+
+  const results: ConfigResult[] = [];
+  for (const config of configs) {
+    const candidateCount = config.k * RETRIEVAL_CANDIDATE_MULTIPLIER;
+    const queries: QueryResult[] = [];
+
+    for (const query of golden.queries) {
+      const { embedding, model: queryModel } = embeddings.get(query.id)!;
+      const vectorHits = config.mode === 'lexical' ? null : await source.findSimilarExamples({
+        query_embedding: embedding,
+        query_embedding_model: queryModel,
+        match_threshold: config.threshold ?? VECTOR_MATCH_THRESHOLD,
+        match_count: candidateCount
+      });
+      const lexicalHits = config.mode === 'vector' ? null : index.search(query.query, candidateCount);
+
+      // Same fusion, rerank and MMR selection as SimpleRAGService.findSimilarExamples
+      const candidateIds = new Set([...(vectorHits || []), ...(lexicalHits || [])].map(hit => hit.id));
+      const candidates = [...candidateIds].flatMap(id => byId.get(id) || []);
+      const ranked = rankHybridCandidates(candidates, vectorHits, lexicalHits, { anchor: query.anchor })
+        .map(({ example, match }) => ({ ...example, score: match.score }));
+      const retrieved = selectDiverse(ranked, config.k, config.diversity, example => example.score)
+        .map(example => example.company);
+
+      queries.push({
+        id: query.id,
+        retrieved,
+        recall: recall(retrieved, query.relevant),
+        reciprocalRank: reciprocalRank(retrieved, query.relevant),
+        ndcg: ndcg(retrieved, query.relevant, config.k)
+      });
+    }
+
+    const result: ConfigResult = {
+      config,
+      current: isCurrentConfig(config),
+      recall: average(queries.map(query => query.recall)),
+      mrr: average(queries.map(query => query.reciprocalRank)),
+      ndcg: average(queries.map(query => query.ndcg)),
+      queries
+    };
+    results.push(result);
+    console.log(`  ${describeConfig(config).padEnd(32)} recall ${result.recall.toFixed(3)}  MRR ${result.mrr.toFixed(3)}  nDCG ${result.ndcg.toFixed(3)}`);
+  }
+
+  const outBase = flags.out ||
+    join(DEFAULT_REPORT_DIR, `${basename(goldenPath, '.json')}-${new Date().toISOString().replace(/[:.]/g, '-')}`);
+  await mkdir(join(outBase, '..'), { recursive: true });
+  await writeFile(`${outBase}.md`, formatReport(golden, goldenPath, source.name, model, results));
+  await writeFile(`${outBase}.json`, JSON.stringify({
+    golden: { path: goldenPath, version: golden.version },
+    vectorStore: source.name,
+    embeddingModel: model,
+    results
+  }, null, 2));
+  console.log(`\n📄 Report: ${outBase}.md (per-query results in ${outBase}.json)`);
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  benchmarkRetrieval(process.argv.slice(2))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('\n💥 Benchmark failed:', error);
+      process.exit(1);
+    });
+}
+
+export { benchmarkRetrieval };
@@ -0,0 +1,22 @@
+import type { CacheName } from '../target.js';
+import type { CommandContext, CommandResult } from '../types.js';
+
+export interface CacheClearOptions {
+  caches: CacheName[];
+}
+
+// Generation cache by default, e.g. after a prompt change; embedding cache entries are safe to keep across
+// prompt changes since they are keyed by text and model
+export async function clearCache({ config, target, out }: CommandContext, options: CacheClearOptions): Promise<CommandResult> {
+  const cleared: Partial<Record<CacheName, number>> = {};
+  for (const cache of options.caches) {
+    if (config.dryRun) {
+      cleared[cache] = await target.countCache(cache);
+      out.log(`🧹 Would clear ${cleared[cache]} ${cache} cache entries from the ${target.name}`);
+    } else {
+      cleared[cache] = await target.clearCache(cache);
+      out.log(`🧹 Cleared ${cleared[cache]} ${cache} cache entries from the ${target.name}`);
+    }
+  }
+  return { ok: true, data: { store: target.name, cleared } };
+}
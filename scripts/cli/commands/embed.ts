@@ -0,0 +1,94 @@
+import { resolveProvider } from '../../../server/providers/index.js';
+import { buildEmbeddingText, type EmbeddingStatus } from '../../../server/store/index.js';
+import { embedOffline, OFFLINE_EMBEDDING_MODEL } from '../../../src/lib/offlineEmbedding.js';
+import { errorMessage } from '../output.js';
+import { sleep, withRetry } from '../retry.js';
+import type { CommandContext, CommandResult } from '../types.js';
+
+export interface EmbedOptions {
+  model?: string; // Backend embedding model; defaults to the provider's
+  offline: boolean; // Fill embedding_local with the offline model instead
+  limit?: number; // Embed at most this many rows this run
+  status?: EmbeddingStatus[]; // Dry run after a dry-run ingest: the rows as that ingest would leave them
+}
+
+interface Embedder {
+  model: string;
+  column: 'embedding' | 'embedding_local';
+  needsEmbedding(row: EmbeddingStatus): boolean;
+  embed(text: string): Promise<{ embedding: number[]; model: string }>;
+}
+
+function createEmbedder(options: EmbedOptions, offlineModelPath?: string): Embedder {
+  if (options.offline) {
+    return {
+      model: OFFLINE_EMBEDDING_MODEL,
+      column: 'embedding_local',
+      needsEmbedding: row => row.embedding_local_model !== OFFLINE_EMBEDDING_MODEL,
+      embed: async text => ({
+        embedding: await embedOffline(text, { localModelPath: offlineModelPath }),
+        model: OFFLINE_EMBEDDING_MODEL
+      })
+    };
+  }
+
+  // In-process, so the API server does not need to be running
+  const provider = resolveProvider();
+  const model = options.model || provider.defaultEmbeddingModel;
+  return {
+    model,
+    column: 'embedding',
+    needsEmbedding: row => row.needs_embedding || row.embedding_model !== model,
+    embed: text => provider.embed(text, model)
+  };
+}
+
+// Embeds every row without an embedding from the target model, or flagged with metadata.needs_embedding.
+// Each row is written as soon as it is embedded, so an interrupted run resumes where it stopped.
+export async function embed({ config, target, out }: CommandContext, options: EmbedOptions): Promise<CommandResult> {
+  const embedder = createEmbedder(options, config.offlineModelPath);
+  const status = options.status ?? (await target.listEmbeddingStatus());
+  const outstanding = status.filter(embedder.needsEmbedding);
+  const pending = options.limit === undefined ? outstanding : outstanding.slice(0, options.limit);
+
+  out.log(`🤖 ${embedder.model} → ${embedder.column}`);
+  out.log(`🗂️  ${target.name}: ${outstanding.length} of ${status.length} examples need embedding${pending.length < outstanding.length ? `, embedding ${pending.length}` : ''}`);
+
+  const summary = {
+    store: target.name,
+    model: embedder.model,
+    column: embedder.column,
+    outstanding: outstanding.length,
+    pending: pending.map(row => ({ id: row.id, company: row.company }))
+  };
+  if (config.dryRun) {
+    pending.forEach(row => out.log(`  • ${row.company} (${row.id ? `ID: ${row.id}` : 'new'})`));
+    return { ok: true, data: summary };
+  }
+
+  const rows = new Map((await target.listExamples()).map(row => [row.id, row]));
+  const failed: { id: number; company: string; error: string }[] = [];
+  let embedded = 0;
+
+  for (const [index, pendingRow] of pending.entries()) {
+    if (index > 0 && config.delayMs > 0) await sleep(config.delayMs);
+    try {
+      const row = rows.get(pendingRow.id);
+      if (!row) throw new Error('Example was deleted during the run');
+
+      const result = await withRetry(() => embedder.embed(buildEmbeddingText(row)), config.retry, (attempt, waitMs, error) =>
+        out.log(`  🔄 ${row.company}: attempt ${attempt} failed (${errorMessage(error)}), retrying in ${waitMs / 1000}s...`)
+      );
+      await target.setEmbedding(row.id, result.embedding, result.model, embedder.column);
+      embedded++;
+      out.log(`✅ ${row.company} (${result.embedding.length} dimensions)`);
+    } catch (error) {
+      failed.push({ id: pendingRow.id, company: pendingRow.company, error: errorMessage(error) });
+      out.error(`❌ ${pendingRow.company}:`, error);
+    }
+  }
+
+  const remaining = outstanding.length - embedded;
+  out.log(`\n📊 Embedded ${embedded} of ${pending.length}${remaining > 0 ? `; ${remaining} left, re-run to resume` : ''}`);
+  return { ok: failed.length === 0, data: { ...summary, embedded, failed } };
+}
@@ -0,0 +1,93 @@
+import {
+  buildEmbeddingText,
+  readExamplesFile,
+  toExampleRow,
+  type EmbeddingStatus,
+  type ExampleRow
+} from '../../../server/store/index.js';
+import { errorMessage } from '../output.js';
+import type { NewExampleRow } from '../target.js';
+import type { CommandContext, CommandResult } from '../types.js';
+
+export interface IngestOptions {
+  path?: string; // Curated examples file (concatenated JSON objects); defaults to EXAMPLES_PATH
+  replace: boolean; // Delete every example first instead of merging
+}
+
+type IngestAction = 'insert' | 'update';
+
+export interface IngestResult extends CommandResult {
+  // Dry run only: every row's embedding status as it would be after the ingest, for ingest --embed --dry-run.
+  // Rows the ingest would insert have no id yet and carry 0.
+  plannedStatus?: EmbeddingStatus[];
+}
+
+// Merges a curated examples file into the store. Examples are matched on their curated id (metadata.original_id):
+// new ones are inserted, known ones updated in place. Rows whose embedding text changed are flagged with
+// metadata.needs_embedding for the embed command; embeddings themselves are never computed here.
+export async function ingest({ config, target, out }: CommandContext, options: IngestOptions): Promise<IngestResult> {
+  const path = options.path || config.examplesPath;
+  const curated = await readExamplesFile(path);
+  out.log(`📄 ${path}: ${curated.length} examples`);
+
+  const existing = options.replace ? [] : await target.listExamples();
+  const byOriginalId = new Map(existing.map(row => [row.metadata.original_id, row]));
+  const plannedStatus = config.dryRun && !options.replace ? await target.listEmbeddingStatus() : [];
+  if (options.replace) {
+    out.log(`🧹 ${config.dryRun ? 'Would delete' : 'Deleting'} every example in the ${target.name}`);
+    if (!config.dryRun) await target.deleteAllExamples();
+  }
+
+  const results: { company: string; original_id: string; action: IngestAction; id?: number; error?: string }[] = [];
+  for (const example of curated) {
+    const previous = byOriginalId.get(example.id);
+    const { row, needsEmbedding } = mergeRow(toExampleRow(example, previous?.id ?? 0), previous);
+    const action: IngestAction = previous ? 'update' : 'insert';
+
+    if (config.dryRun) {
+      const index = plannedStatus.findIndex(status => status.id === previous?.id);
+      const planned: EmbeddingStatus = index >= 0
+        ? { ...plannedStatus[index], company: example.company, needs_embedding: needsEmbedding }
+        : { id: 0, company: example.company, embedding_model: null, embedding_dimensions: null, embedding_local_model: null, needs_embedding: true };
+      if (index >= 0) plannedStatus[index] = planned;
+      else plannedStatus.push(planned);
+
+      results.push({ company: example.company, original_id: example.id, action, id: previous?.id });
+      out.log(`  • Would ${action} ${example.company}${needsEmbedding ? ' (needs embedding)' : ''}`);
+      continue;
+    }
+
+    try {
+      const id = await target.saveExample(row);
+      results.push({ company: example.company, original_id: example.id, action, id });
+      out.log(`✅ ${action === 'insert' ? 'Inserted' : 'Updated'} ${example.company} (ID: ${id})${needsEmbedding ? ', needs embedding' : ''}`);
+    } catch (error) {
+      results.push({ company: example.company, original_id: example.id, action, error: errorMessage(error) });
+      out.error(`❌ ${example.company}:`, error);
+    }
+  }
+
+  const failed = results.filter(result => result.error).length;
+  const count = (action: IngestAction) => results.filter(result => result.action === action && !result.error).length;
+  out.log(`\n📊 ${count('insert')} inserted, ${count('update')} updated, ${failed} failed`);
+  return {
+    ok: failed === 0,
+    data: { store: target.name, path, replaced: options.replace, inserted: count('insert'), updated: count('update'), failed, examples: results },
+    plannedStatus: config.dryRun ? plannedStatus : undefined
+  };
+}
+
+// The file's fields win; bookkeeping in the stored metadata (embedding_generated_at and the like) is kept,
+// and needs_embedding is only raised when the text the row is embedded from changed
+function mergeRow(row: ExampleRow, previous: ExampleRow | undefined): { row: NewExampleRow; needsEmbedding: boolean } {
+  if (!previous) {
+    const inserted: NewExampleRow = { ...row, metadata: { ...row.metadata, needs_embedding: true } };
+    delete inserted.id;
+    return { row: inserted, needsEmbedding: true };
+  }
+
+  const needsEmbedding = previous.metadata.needs_embedding === true ||
+    previous.metadata.needs_embedding === 'true' ||
+    buildEmbeddingText(previous) !== buildEmbeddingText(row);
+  return { row: { ...row, metadata: { ...previous.metadata, ...row.metadata, needs_embedding: needsEmbedding } }, needsEmbedding };
+}
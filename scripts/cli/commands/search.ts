@@ -0,0 +1,47 @@
+import { resolveProvider } from '../../../server/providers/index.js';
+import { VECTOR_MATCH_THRESHOLD } from '../../../src/lib/hybridRetrieval.js';
+import { errorMessage } from '../output.js';
+import { withRetry } from '../retry.js';
+import type { CommandContext, CommandResult } from '../types.js';
+
+export interface SearchOptions {
+  query: string;
+  count: number;
+  threshold?: number; // Defaults to the app's vector match threshold
+  model?: string;
+}
+
+// Vector search only, straight through find_similar_examples, to check embeddings and thresholds; the app
+// adds lexical matching and reranking on top (see npm run benchmark:retrieval for that pipeline)
+export async function search({ config, target, out }: CommandContext, options: SearchOptions): Promise<CommandResult> {
+  const provider = resolveProvider();
+  const { embedding, model } = await withRetry(() => provider.embed(options.query, options.model), config.retry, (attempt, waitMs, error) =>
+    out.log(`  🔄 Attempt ${attempt} failed (${errorMessage(error)}), retrying in ${waitMs / 1000}s...`)
+  );
+  const threshold = options.threshold ?? VECTOR_MATCH_THRESHOLD;
+
+  out.log(`🔍 "${options.query}" (${model}, ${embedding.length} dimensions, threshold ${threshold})`);
+  const matches = await target.findSimilarExamples({
+    query_embedding: embedding,
+    query_embedding_model: model,
+    match_threshold: threshold,
+    match_count: options.count
+  });
+
+  out.log(`🎯 ${matches.length} matches in the ${target.name}:`);
+  matches.forEach((match, index) => {
+    out.log(`  ${index + 1}. ${match.company} (similarity: ${match.similarity.toFixed(3)})`);
+    out.log(`     "${match.tagline}"`);
+  });
+
+  return {
+    ok: true,
+    data: {
+      store: target.name,
+      query: options.query,
+      model,
+      threshold,
+      matches: matches.map(match => ({ id: match.id, company: match.company, tagline: match.tagline, similarity: match.similarity, score: match.score }))
+    }
+  };
+}
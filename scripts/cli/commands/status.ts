@@ -0,0 +1,58 @@
+import { resolveProvider } from '../../../server/providers/index.js';
+import { OFFLINE_EMBEDDING_MODEL } from '../../../src/lib/offlineEmbedding.js';
+import type { CommandContext, CommandResult } from '../types.js';
+
+export interface StatusOptions {
+  model?: string; // Model rows are checked against; defaults to the provider's
+}
+
+function countBy(values: (string | null)[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  values.forEach(value => {
+    const key = value ?? 'none';
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return counts;
+}
+
+// Examples per embedding model, what the embed command would pick up, and the size of both caches
+export async function status({ target, out }: CommandContext, options: StatusOptions): Promise<CommandResult> {
+  // Without a configured provider there is no current model; rows are then only checked for a missing embedding
+  let model = options.model ?? null;
+  if (!model) {
+    try {
+      model = resolveProvider().defaultEmbeddingModel;
+    } catch {
+      model = null;
+    }
+  }
+
+  const rows = await target.listEmbeddingStatus();
+  const pending = rows.filter(row => row.needs_embedding || !row.embedding_model || (model !== null && row.embedding_model !== model));
+  const offlinePending = rows.filter(row => row.embedding_local_model !== OFFLINE_EMBEDDING_MODEL);
+  const byModel = countBy(rows.map(row => row.embedding_model));
+  const caches = { generation: await target.countCache('generation'), embedding: await target.countCache('embedding') };
+
+  out.log(`📊 ${target.name}: ${rows.length} examples`);
+  Object.entries(byModel).forEach(([name, count]) => out.log(`  ${name === 'none' ? '⏳ Not embedded' : `✅ ${name}`}: ${count}`));
+  out.log(`🔄 Need embedding${model ? ` with ${model}` : ''}: ${pending.length}`);
+  out.log(`📴 Need an offline embedding (${OFFLINE_EMBEDDING_MODEL}): ${offlinePending.length}`);
+  out.log(`🗄️  Cache entries: ${caches.generation} generations, ${caches.embedding} embeddings`);
+  if (pending.length > 0) {
+    out.log('\nStill need embeddings:');
+    pending.forEach((row, index) => out.log(`${index + 1}. ${row.company} (ID: ${row.id})`));
+  }
+
+  return {
+    ok: true,
+    data: {
+      store: target.name,
+      total: rows.length,
+      model,
+      byModel,
+      needsEmbedding: pending.map(row => ({ id: row.id, company: row.company, embedding_model: row.embedding_model })),
+      needsOfflineEmbedding: offlinePending.length,
+      caches
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import dotenv from 'dotenv';
+import { isLocalStoreEnabled } from '../../server/store/index.js';
+
+// Quiet, so dotenv's own log line never lands in --json output
+dotenv.config({ path: '.env.local', quiet: true });
+dotenv.config({ quiet: true });
+
+export interface RetryOptions {
+  retries: number; // Attempts in total, including the first
+  delayMs: number; // Wait before the second attempt; doubles after every failure
+}
+
+// Settings every subcommand shares: environment first, then the global flags
+export interface CliConfig {
+  store: 'local' | 'supabase'; // VECTOR_STORE=local, otherwise Supabase
+  supabaseUrl?: string;
+  supabaseKey?: string;
+  examplesPath: string; // Default file for ingest
+  offlineModelPath?: string; // Local copy of the offline model files for embed --offline
+  retry: RetryOptions;
+  delayMs: number; // Pause between embedding requests, for rate-limited APIs
+  dryRun: boolean;
+  json: boolean;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+
+export interface GlobalFlags {
+  'dry-run'?: boolean;
+  json?: boolean;
+  retries?: string;
+  'retry-delay'?: string;
+  delay?: string;
+}
+
+export function parseCount(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`--${name} needs a whole number, got "${value}"`);
+  return parsed;
+}
+
+export function loadConfig(flags: GlobalFlags): CliConfig {
+  return {
+    store: isLocalStoreEnabled() ? 'local' : 'supabase',
+    supabaseUrl: process.env.VITE_SUPABASE_URL,
+    supabaseKey: process.env.VITE_SUPABASE_ANON_KEY,
+    examplesPath: process.env.EXAMPLES_PATH || 'examples.json',
+    offlineModelPath: process.env.OFFLINE_MODEL_PATH || undefined,
+    retry: {
+      retries: Math.max(1, parseCount('retries', flags.retries, DEFAULT_RETRIES)),
+      delayMs: parseCount('retry-delay', flags['retry-delay'], DEFAULT_RETRY_DELAY_MS)
+    },
+    delayMs: parseCount('delay', flags.delay, 0),
+    dryRun: flags['dry-run'] === true,
+    json: flags.json === true
+  };
+}
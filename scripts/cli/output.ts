@@ -0,0 +1,23 @@
+// Human mode prints progress as it goes. With --json, stdout carries nothing but the final result object
+// so it can be piped into jq or another tool; progress moves to stderr.
+export interface Output {
+  json: boolean;
+  log(message: string): void;
+  error(message: string, error?: unknown): void;
+  result(data: Record<string, unknown>): void;
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function createOutput(json: boolean): Output {
+  return {
+    json,
+    log: message => (json ? console.error(message) : console.log(message)),
+    error: (message, error) => console.error(error === undefined ? message : `${message} ${errorMessage(error)}`),
+    result: data => {
+      if (json) process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+    }
+  };
+}
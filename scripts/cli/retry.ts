@@ -0,0 +1,30 @@
+import type { RetryOptions } from './config.js';
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Rate limits, server errors and network failures are worth retrying; other client errors (bad key,
+// unknown model) fail the same way every time
+function isRetryable(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status !== 'number' || status === 429 || status >= 500;
+}
+
+// Runs `task` up to options.retries times with exponential backoff: delayMs, then 2x, 4x...
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  options: RetryOptions,
+  onRetry?: (attempt: number, waitMs: number, error: unknown) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= options.retries || !isRetryable(error)) throw error;
+      const waitMs = options.delayMs * 2 ** (attempt - 1);
+      onRetry?.(attempt, waitMs, error);
+      await sleep(waitMs);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  getLocalVectorStore,
+  type EmbeddingStatus,
+  type ExampleRow,
+  type SimilarExample,
+  type SimilarExamplesQuery
+} from '../../server/store/index.js';
+import type { CliConfig } from './config.js';
+
+export type NewExampleRow = Omit<ExampleRow, 'id'> & { id?: number };
+export type CacheName = 'generation' | 'embedding';
+
+// The example table, find_similar_examples and both caches, from the local store or Supabase
+export interface StoreTarget {
+  name: string;
+  listExamples(): Promise<ExampleRow[]>;
+  listEmbeddingStatus(): Promise<EmbeddingStatus[]>;
+  // Updates the row with the given id, inserts when there is none; embeddings are left as they are
+  saveExample(row: NewExampleRow): Promise<number>;
+  deleteAllExamples(): Promise<void>;
+  setEmbedding(id: number, embedding: number[], model: string, column: 'embedding' | 'embedding_local'): Promise<void>;
+  findSimilarExamples(query: SimilarExamplesQuery): Promise<SimilarExample[]>;
+  countCache(cache: CacheName): Promise<number>;
+  clearCache(cache: CacheName): Promise<number>;
+}
+
+function localStoreTarget(): StoreTarget {
+  const store = getLocalVectorStore();
+  return {
+    name: 'local store',
+    listExamples: () => store.listExamples(),
+    listEmbeddingStatus: () => store.listEmbeddingStatus(),
+    saveExample: row => store.upsertExample(row),
+    deleteAllExamples: () => store.deleteAllExamples(),
+    setEmbedding: (id, embedding, model, column) => store.setEmbedding(id, embedding, model, column),
+    findSimilarExamples: query => store.findSimilarExamples(query),
+    countCache: cache => (cache === 'generation' ? store.countGenerationCache() : store.countEmbeddingCache()),
+    clearCache: cache => (cache === 'generation' ? store.clearGenerationCache() : store.clearEmbeddingCache())
+  };
+}
+
+const EXAMPLE_COLUMNS = 'id, company, tagline, anchor_type, primary_anchor, problem, differentiator, industry, effectiveness, icp, tags, tone, structure, secondary_anchors, metadata';
+const CACHE_TABLES: Record<CacheName, string> = { generation: 'generation_cache', embedding: 'embedding_cache' };
+
+function supabaseTarget(config: CliConfig): StoreTarget {
+  if (!config.supabaseUrl || !config.supabaseKey) {
+    throw new Error('Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY, or VECTOR_STORE=local for the local store');
+  }
+  const supabase = createClient(config.supabaseUrl, config.supabaseKey);
+  const toRow = (row: Record<string, unknown>) => ({ ...row, icp: row.icp || [], metadata: row.metadata || {} }) as ExampleRow;
+
+  const countCache = async (cache: CacheName) => {
+    const { count, error } = await supabase.from(CACHE_TABLES[cache]).select('*', { count: 'exact', head: true });
+    if (error) throw new Error(`Failed to count ${CACHE_TABLES[cache]}: ${error.message}`);
+    return count || 0;
+  };
+
+  return {
+    name: 'Supabase',
+    async listExamples() {
+      const { data, error } = await supabase.from('positioning_examples_v2').select(EXAMPLE_COLUMNS).order('id');
+      if (error) throw new Error(`Failed to fetch examples: ${error.message}`);
+      return (data || []).map(toRow);
+    },
+    async listEmbeddingStatus() {
+      // Vectors are not fetched; the model columns say whether a row has one
+      const { data, error } = await supabase
+        .from('positioning_examples_v2')
+        .select('id, company, embedding_model, embedding_dimensions, embedding_local_model, metadata')
+        .order('id');
+      if (error) throw new Error(`Failed to fetch examples: ${error.message}`);
+      return (data || []).map(row => ({
+        id: row.id,
+        company: row.company,
+        embedding_model: row.embedding_model ?? null,
+        embedding_dimensions: row.embedding_dimensions ?? null,
+        embedding_local_model: row.embedding_local_model ?? null,
+        needs_embedding: row.metadata?.needs_embedding === true || row.metadata?.needs_embedding === 'true'
+      }));
+    },
+    async saveExample(row) {
+      const { id, ...fields } = row;
+      const query = id === undefined
+        ? supabase.from('positioning_examples_v2').insert(fields)
+        : supabase.from('positioning_examples_v2').update(fields).eq('id', id);
+      const { data, error } = await query.select('id').single();
+      if (error) throw new Error(`Failed to save ${row.company}: ${error.message}`);
+      return data.id;
+    },
+    async deleteAllExamples() {
+      const { error } = await supabase.from('positioning_examples_v2').delete().gt('id', 0);
+      if (error) throw new Error(`Failed to delete examples: ${error.message}`);
+    },
+    async setEmbedding(id, embedding, model, column) {
+      if (column === 'embedding_local') {
+        const { error } = await supabase
+          .from('positioning_examples_v2')
+          .update({ embedding_local: embedding, embedding_local_model: model })
+          .eq('id', id);
+        if (error) throw new Error(error.message);
+        return;
+      }
+
+      const { data: current, error: fetchError } = await supabase
+        .from('positioning_examples_v2')
+        .select('metadata')
+        .eq('id', id)
+        .single();
+      if (fetchError) throw new Error(fetchError.message);
+
+      const { error } = await supabase
+        .from('positioning_examples_v2')
+        .update({
+          embedding,
+          embedding_model: model,
+          embedding_dimensions: embedding.length,
+          metadata: { ...current.metadata, needs_embedding: false, embedding_generated_at: new Date().toISOString() }
+        })
+        .eq('id', id);
+      if (error) throw new Error(error.message);
+    },
+    async findSimilarExamples(query) {
+      const { data, error } = await supabase.rpc('find_similar_examples', query);
+      if (error) throw new Error(`find_similar_examples failed: ${error.message}`);
+      return data || [];
+    },
+    countCache,
+    async clearCache(cache) {
+      const count = await countCache(cache);
+      const { error } = await supabase.from(CACHE_TABLES[cache]).delete().gt('id', 0);
+      if (error) throw new Error(`Failed to clear ${CACHE_TABLES[cache]}: ${error.message}`);
+      return count;
+    }
+  };
+}
+
+export function createStoreTarget(config: CliConfig): StoreTarget {
+  return config.store === 'local' ? localStoreTarget() : supabaseTarget(config);
+}
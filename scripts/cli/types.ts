@@ -0,0 +1,15 @@
+import type { CliConfig } from './config.js';
+import type { Output } from './output.js';
+import type { StoreTarget } from './target.js';
+
+export interface CommandContext {
+  config: CliConfig;
+  target: StoreTarget;
+  out: Output;
+}
+
+// `data` is what --json prints; `ok: false` makes the CLI exit non-zero after printing it
+export interface CommandResult {
+  ok: boolean;
+  data: Record<string, unknown>;
+}
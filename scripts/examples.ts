@@ -0,0 +1,162 @@
+// Example corpus CLI: ingest curated examples, embed them, check status, clear caches and try searches, against
+// the local store when VECTOR_STORE=local, otherwise Supabase. Embeddings come from the server's provider
+// in-process, so the API server does not need to be running.
+//
+//   npm run examples -- <command> [options]      (npm run examples -- --help for the list)
+import { parseArgs } from 'util';
+import { clearCache } from './cli/commands/cache.js';
+import { embed } from './cli/commands/embed.js';
+import { ingest } from './cli/commands/ingest.js';
+import { search } from './cli/commands/search.js';
+import { status } from './cli/commands/status.js';
+import { loadConfig, parseCount } from './cli/config.js';
+import { createOutput, errorMessage } from './cli/output.js';
+import { createStoreTarget } from './cli/target.js';
+import type { CommandContext, CommandResult } from './cli/types.js';
+
+const USAGE = `Usage: npm run examples -- <command> [options]
+
+Commands:
+  ingest [path]         Merge a curated examples file (default: EXAMPLES_PATH or examples.json) into the store
+      --replace         Delete every example first
+      --embed           Embed the new and changed examples afterwards
+  embed                 Embed examples missing an embedding from the current model; resumable
+      --model <name>    Embedding model (default: the provider's)
+      --offline         Fill embedding_local with the offline model instead
+      --limit <n>       Embed at most n examples
+  status                Examples per embedding model, what still needs embedding, cache sizes
+      --model <name>    Model to check against (default: the provider's)
+  cache clear           Clear the generation cache
+      --embeddings      Clear the embedding cache instead
+      --all             Clear both
+  search <query>        Vector search through find_similar_examples
+      --k <n>           Matches to return (default: 5)
+      --threshold <x>   Similarity threshold (default: the app's)
+      --model <name>    Embedding model (default: the provider's)
+
+Options:
+  --dry-run             ingest, embed, cache clear: report what would change without writing or embedding
+  --json                Print one JSON result object on stdout; progress goes to stderr
+  --retries <n>         Attempts per embedding request (default: 3)
+  --retry-delay <ms>    First retry delay, doubled after each failure (default: 2000)
+  --delay <ms>          Pause between embedding requests (default: 0)
+
+The store is the local one when VECTOR_STORE=local, otherwise Supabase (VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY).`;
+
+const GLOBAL_FLAGS = ['dry-run', 'json', 'retries', 'retry-delay', 'delay', 'help'];
+
+// Flags each command accepts on top of the global ones
+const COMMAND_FLAGS: Record<string, string[]> = {
+  ingest: ['replace', 'embed', 'model', 'offline'],
+  embed: ['model', 'offline', 'limit'],
+  status: ['model'],
+  cache: ['embeddings', 'all'],
+  search: ['k', 'threshold', 'model']
+};
+
+function parseCli(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'dry-run': { type: 'boolean' },
+      json: { type: 'boolean' },
+      retries: { type: 'string' },
+      'retry-delay': { type: 'string' },
+      delay: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      replace: { type: 'boolean' },
+      embed: { type: 'boolean' },
+      model: { type: 'string' },
+      offline: { type: 'boolean' },
+      limit: { type: 'string' },
+      embeddings: { type: 'boolean' },
+      all: { type: 'boolean' },
+      k: { type: 'string' },
+      threshold: { type: 'string' }
+    }
+  });
+}
+
+type CliFlags = ReturnType<typeof parseCli>['values'];
+
+async function runCommand(command: string, args: string[], flags: CliFlags, context: CommandContext): Promise<CommandResult> {
+  switch (command) {
+    case 'ingest': {
+      if (args.length > 1) throw new Error('ingest takes a single file path');
+      const ingested = await ingest(context, { path: args[0], replace: flags.replace === true });
+      if (!flags.embed) return ingested;
+      context.out.log('');
+      // A dry-run ingest wrote nothing, so the embed step plans against the rows as the ingest would leave them
+      const embedded = await embed(context, { model: flags.model, offline: flags.offline === true, status: ingested.plannedStatus });
+      return { ok: ingested.ok && embedded.ok, data: { ...ingested.data, embed: embedded.data } };
+    }
+    case 'embed':
+      if (args.length > 0) throw new Error('embed takes no arguments');
+      return embed(context, {
+        model: flags.model,
+        offline: flags.offline === true,
+        limit: flags.limit === undefined ? undefined : parseCount('limit', flags.limit, 0)
+      });
+    case 'status':
+      if (args.length > 0) throw new Error('status takes no arguments');
+      return status(context, { model: flags.model });
+    case 'cache':
+      if (args.length !== 1 || args[0] !== 'clear') throw new Error('Usage: cache clear [--embeddings | --all]');
+      return clearCache(context, {
+        caches: flags.all ? ['generation', 'embedding'] : flags.embeddings ? ['embedding'] : ['generation']
+      });
+    case 'search': {
+      const query = args.join(' ').trim();
+      if (!query) throw new Error('search needs a query, e.g. search "marketing automation for B2B"');
+      const threshold = flags.threshold === undefined ? undefined : Number(flags.threshold);
+      if (threshold !== undefined && !(threshold >= 0 && threshold <= 1)) {
+        throw new Error(`--threshold needs a number between 0 and 1, got "${flags.threshold}"`);
+      }
+      return search(context, { query, count: Math.max(1, parseCount('k', flags.k, 5)), threshold, model: flags.model });
+    }
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+// Returns whether the command succeeded, for the exit code
+async function runCli(argv: string[]): Promise<boolean> {
+  const json = argv.includes('--json');
+  const out = createOutput(json);
+  let command = '';
+
+  try {
+    const { values: flags, positionals } = parseCli(argv);
+    const [name, ...args] = positionals;
+    command = name || '';
+    if (flags.help || !command) {
+      console.log(USAGE);
+      return !!flags.help;
+    }
+
+    if (!COMMAND_FLAGS[command]) throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+    const allowed = [...GLOBAL_FLAGS, ...COMMAND_FLAGS[command]];
+    const unsupported = Object.keys(flags).filter(flag => !allowed.includes(flag));
+    if (unsupported.length > 0) {
+      throw new Error(`${command} does not take ${unsupported.map(flag => `--${flag}`).join(', ')}`);
+    }
+
+    const config = loadConfig(flags);
+    if (config.dryRun) out.log('🧪 Dry run: nothing will be written');
+    const result = await runCommand(command, args, flags, { config, target: createStoreTarget(config), out });
+    out.result({ command, dryRun: config.dryRun, ok: result.ok, ...result.data });
+    return result.ok;
+  } catch (error) {
+    out.error(`💥 ${command || 'examples'} failed:`, error);
+    out.result({ command, ok: false, error: errorMessage(error) });
+    return false;
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCli(process.argv.slice(2)).then(ok => process.exit(ok ? 0 : 1));
+}
+
+export { runCli };
@@ -3,7 +3,21 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
-import OpenAI from 'openai';
+import {
+  ProviderError,
+  getProviderStatus,
+  isMockMode,
+  resolveModel,
+  resolveProvider,
+  validateProviderConfig,
+  type ChatTurn
+} from './providers/index.js';
+import {
+  StoreError,
+  getLocalVectorStore,
+  isLocalStoreEnabled,
+  type SimilarExamplesQuery
+} from './store/index.js';
 
 // Load environment variables
 dotenv.config();
@@ -11,11 +25,6 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-// Initialize OpenAI with server-side API key
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
-
 // Security middleware
 app.use(helmet());
 app.use(cors({
@@ -47,192 +56,440 @@ const aiLimiter = rateLimit({
   legacyHeaders: false
 });
 
+// JSON schema for structured positioning output (mirrors GeneratedCopySchema in src/lib/validations.ts)
+const POSITIONING_COPY_SCHEMA = {
+  type: 'object',
+  properties: {
+    headline: { type: 'string' },
+    subheadline: { type: 'string' },
+    opportunity: { type: 'string' }
+  },
+  required: ['headline', 'subheadline', 'opportunity'],
+  additionalProperties: false
+};
+
+const POSITIONING_JSON_SCHEMA = {
+  name: 'positioning_copy',
+  strict: true,
+  schema: POSITIONING_COPY_SCHEMA
+};
+
+// Several candidates in one completion (mirrors GeneratedVariantsSchema); the prompt states how many
+const POSITIONING_VARIANTS_JSON_SCHEMA = {
+  name: 'positioning_variants',
+  strict: true,
+  schema: {
+    type: 'object',
+    properties: {
+      variants: { type: 'array', items: POSITIONING_COPY_SCHEMA }
+    },
+    required: ['variants'],
+    additionalProperties: false
+  }
+};
+
+const MAX_VARIANT_COUNT = 5;
+
+const POSITIONING_SYSTEM_PROMPT = 'You are an expert positioning strategist. Generate compelling, professional positioning copy based on successful examples and patterns. Always format your response exactly as requested.';
+
+// Shared request validation for the generation endpoints; returns an error message or null
+function validateGenerationRequest(body: Record<string, unknown>): string | null {
+  const { prompt, temperature = 0.3, top_p = 0.8, response_format = 'text', variant_count = 1 } = body;
+
+  if (!prompt) return 'Prompt is required';
+  if (typeof temperature !== 'number' || temperature < 0 || temperature > 1) {
+    return 'Temperature must be between 0 and 1';
+  }
+  if (typeof top_p !== 'number' || top_p < 0 || top_p > 1) {
+    return 'Top-p must be between 0 and 1';
+  }
+  if (response_format !== 'text' && response_format !== 'json') {
+    return "Response format must be 'text' or 'json'";
+  }
+  if (body.history !== undefined && !isChatHistory(body.history)) {
+    return "History must be an array of { role: 'user' | 'assistant', content: string } turns";
+  }
+  if (typeof variant_count !== 'number' || !Number.isInteger(variant_count) || variant_count < 1 || variant_count > MAX_VARIANT_COUNT) {
+    return `Variant count must be an integer between 1 and ${MAX_VARIANT_COUNT}`;
+  }
+  return null;
+}
+
+function isChatHistory(value: unknown): value is ChatTurn[] {
+  return Array.isArray(value) && value.every(turn =>
+    turn && typeof turn === 'object' &&
+    (turn.role === 'user' || turn.role === 'assistant') &&
+    typeof turn.content === 'string'
+  );
+}
+
+// Structured output schema for a validated request; plain text when JSON was not asked for
+function selectJsonSchema(responseFormat: string, variantCount: number) {
+  if (responseFormat !== 'json') return undefined;
+  return variantCount > 1 ? POSITIONING_VARIANTS_JSON_SCHEMA : POSITIONING_JSON_SCHEMA;
+}
+
+// Map provider/upstream failures to an HTTP status and client-facing message
+function describeProviderError(error: unknown, defaultMessage: string): { status: number; message: string } {
+  if (error instanceof ProviderError) {
+    return { status: error.status, message: error.message };
+  }
+
+  const status = error instanceof Error && 'status' in error ? error.status : undefined;
+  if (status === 429) {
+    return { status: 429, message: 'Rate limit exceeded. Please try again later.' };
+  }
+  if (status === 401) {
+    return { status: 401, message: 'Invalid API key configuration.' };
+  }
+  return { status: 500, message: defaultMessage };
+}
+
+function describeStoreError(error: unknown): { status: number; message: string } {
+  if (error instanceof StoreError) {
+    return { status: error.status, message: error.message };
+  }
+  return { status: 500, message: 'Local vector store request failed.' };
+}
+
+// Send SSE headers once, on the first write
+function startEventStream(res: express.Response) {
+  if (res.headersSent) return;
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+}
+
+// Write a single Server-Sent Event
+function sendEvent(res: express.Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 app.use(limiter);
 app.use(express.json({ limit: '10mb' }));
 
 // Health check endpoint
-app.get('/health', (req, res) => {
+app.get('/health', (_req, res) => {
   res.json({ 
     status: 'healthy', 
     timestamp: new Date().toISOString(),
-    hasOpenAI: !!process.env.OPENAI_API_KEY
+    hasOpenAI: !!process.env.OPENAI_API_KEY,
+    llm: getProviderStatus(),
+    vectorStore: isLocalStoreEnabled() ? 'local' : 'supabase'
   });
 });
 
 // Positioning generation endpoint with temperature/top-p support
+// Optional `provider` ('openai' | 'local' | 'mock') and `model` override the env defaults;
+// optional `history` carries earlier turns for multi-turn refinement
 app.post('/api/generate-positioning', aiLimiter, async (req, res) => {
   try {
-    const { prompt, context, temperature = 0.3, top_p = 0.8, max_tokens = 800 } = req.body;
-
-    if (!prompt) {
-      return res.status(400).json({ error: 'Prompt is required' });
-    }
+    const { prompt, temperature = 0.3, top_p = 0.8, max_tokens = 800, response_format = 'text', variant_count = 1, history, provider: requestedProvider, model: requestedModel } = req.body;
 
     // Validate parameters
-    if (temperature < 0 || temperature > 1) {
-      return res.status(400).json({ error: 'Temperature must be between 0 and 1' });
-    }
-    if (top_p < 0 || top_p > 1) {
-      return res.status(400).json({ error: 'Top-p must be between 0 and 1' });
+    const validationError = validateGenerationRequest(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      return res.status(503).json({ 
-        error: 'OpenAI API key not configured on server',
-        fallback: true
-      });
-    }
+    const provider = resolveProvider(requestedProvider);
+    const model = resolveModel(provider, requestedModel, 'completion');
 
-    console.log(`Generating positioning with settings: temp=${temperature}, top_p=${top_p}`);
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert positioning strategist. Generate compelling, professional positioning copy based on successful examples and patterns. Always format your response exactly as requested.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: max_tokens,
-      temperature: temperature,
-      top_p: top_p
-    });
+    console.log(`Generating positioning with ${provider.name}: temp=${temperature}, top_p=${top_p}`);
 
-    const generatedText = response.choices[0]?.message?.content || '';
+    const result = await provider.complete({
+      model,
+      systemPrompt: POSITIONING_SYSTEM_PROMPT,
+      prompt,
+      history,
+      temperature,
+      top_p,
+      max_tokens,
+      jsonSchema: selectJsonSchema(response_format, variant_count),
+      variantCount: variant_count
+    });
     
     res.json({
       success: true,
-      content: generatedText,
-      settings: { temperature, top_p, max_tokens },
-      usage: {
-        promptTokens: response.usage?.prompt_tokens,
-        completionTokens: response.usage?.completion_tokens,
-        totalTokens: response.usage?.total_tokens
-      }
+      content: result.content,
+      provider: provider.name,
+      model: result.model,
+      settings: { temperature, top_p, max_tokens, response_format, variant_count },
+      usage: result.usage
     });
 
   } catch (error) {
-    console.error('OpenAI API Error:', error);
-    
-    if (error instanceof Error) {
-      // OpenAI API errors
-      if ('status' in error && error.status === 429) {
-        return res.status(429).json({ 
-          error: 'Rate limit exceeded. Please try again later.',
-          fallback: true
-        });
-      }
-      
-      if ('status' in error && error.status === 401) {
-        return res.status(401).json({ 
-          error: 'Invalid API key configuration.',
-          fallback: true
-        });
-      }
-    }
+    console.error('LLM Provider Error:', error);
 
-    res.status(500).json({ 
-      error: 'Failed to generate positioning content.',
+    const { status, message } = describeProviderError(error, 'Failed to generate positioning content.');
+    res.status(status).json({ 
+      error: message,
       fallback: true
     });
   }
 });
 
-// Embedding generation endpoint for vector search
-app.post('/api/generate-embedding', aiLimiter, async (req, res) => {
+// Streaming variant of the generation endpoint (Server-Sent Events)
+// Emits `delta` events with content chunks, then a single `done` or `error` event
+app.post('/api/generate-positioning/stream', aiLimiter, async (req, res) => {
+  const { prompt, temperature = 0.3, top_p = 0.8, max_tokens = 800, response_format = 'text', variant_count = 1, history, provider: requestedProvider, model: requestedModel } = req.body;
+
+  const validationError = validateGenerationRequest(req.body);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  // Stop the upstream completion if the client cancels
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abortController.abort();
+  });
+
   try {
-    const { text } = req.body;
+    const provider = resolveProvider(requestedProvider);
+    const model = resolveModel(provider, requestedModel, 'completion');
 
-    if (!text) {
-      return res.status(400).json({ error: 'Text is required' });
+    console.log(`Streaming positioning with ${provider.name}: temp=${temperature}, top_p=${top_p}`);
+
+    const stream = provider.streamComplete({
+      model,
+      systemPrompt: POSITIONING_SYSTEM_PROMPT,
+      prompt,
+      history,
+      temperature,
+      top_p,
+      max_tokens,
+      jsonSchema: selectJsonSchema(response_format, variant_count),
+      variantCount: variant_count,
+      signal: abortController.signal
+    });
+
+    let generatedText = '';
+    for await (const delta of stream) {
+      // Headers go out with the first chunk so upstream failures can still use a status code
+      startEventStream(res);
+      generatedText += delta;
+      sendEvent(res, 'delta', { content: delta });
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      return res.status(503).json({ 
-        error: 'OpenAI API key not configured on server',
-        fallback: true
-      });
+    startEventStream(res);
+    sendEvent(res, 'done', {
+      success: true,
+      content: generatedText,
+      provider: provider.name,
+      model: model || provider.defaultCompletionModel,
+      settings: { temperature, top_p, max_tokens, response_format, variant_count }
+    });
+    res.end();
+
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      console.log('Streaming generation cancelled by client');
+      return;
     }
 
-    console.log(`Generating embedding for text: ${text.substring(0, 100)}...`);
+    console.error('LLM Streaming Error:', error);
 
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-ada-002',
-      input: text,
-    });
+    const { status, message } = describeProviderError(error, 'Failed to generate positioning content.');
+
+    // Once the stream has started the status line is gone; report in-band instead
+    if (res.headersSent) {
+      sendEvent(res, 'error', { error: message, fallback: true });
+      return res.end();
+    }
+
+    res.status(status).json({ error: message, fallback: true });
+  }
+});
 
-    const embedding = response.data[0]?.embedding;
+// Embedding generation endpoint for vector search
+app.post('/api/generate-embedding', aiLimiter, async (req, res) => {
+  try {
+    const { text, provider: requestedProvider, model: requestedModel } = req.body;
 
-    if (!embedding) {
-      throw new Error('No embedding returned from OpenAI');
+    if (!text) {
+      return res.status(400).json({ error: 'Text is required' });
     }
+
+    const provider = resolveProvider(requestedProvider);
+    const model = resolveModel(provider, requestedModel, 'embedding');
+
+    console.log(`Generating ${provider.name} embedding for text: ${text.substring(0, 100)}...`);
+
+    const result = await provider.embed(text, model);
     
     res.json({
       success: true,
-      embedding: embedding,
-      usage: {
-        promptTokens: response.usage?.prompt_tokens,
-        totalTokens: response.usage?.total_tokens
-      }
+      embedding: result.embedding,
+      provider: provider.name,
+      model: result.model,
+      usage: result.usage
     });
 
   } catch (error) {
-    console.error('OpenAI Embedding Error:', error);
-    
-    if (error instanceof Error) {
-      if ('status' in error && error.status === 429) {
-        return res.status(429).json({ 
-          error: 'Rate limit exceeded. Please try again later.',
-          fallback: true
-        });
-      }
-      
-      if ('status' in error && error.status === 401) {
-        return res.status(401).json({ 
-          error: 'Invalid API key configuration.',
-          fallback: true
-        });
-      }
-    }
+    console.error('Embedding Provider Error:', error);
 
-    res.status(500).json({ 
-      error: 'Failed to generate embedding.',
+    const { status, message } = describeProviderError(error, 'Failed to generate embedding.');
+    res.status(status).json({ 
+      error: message,
       fallback: true
     });
   }
 });
 
+// Local vector store: the same reads and writes the app makes against Supabase, served from a JSON file.
+// Only served when VECTOR_STORE=local; otherwise every route answers 404.
+app.use('/api/store', (_req, res, next) => {
+  if (!isLocalStoreEnabled()) {
+    return res.status(404).json({ error: 'Local vector store is disabled. Set VECTOR_STORE=local on the server.' });
+  }
+  next();
+});
+
+// Example rows without embeddings; `ids` (comma separated) selects and orders them
+app.get('/api/store/examples', async (req, res) => {
+  try {
+    const ids = typeof req.query.ids === 'string'
+      ? req.query.ids.split(',').map(Number).filter(Number.isInteger)
+      : undefined;
+    res.json({ examples: await getLocalVectorStore().listExamples(ids) });
+  } catch (error) {
+    console.error('Local store error:', error);
+    const { status, message } = describeStoreError(error);
+    res.status(status).json({ error: message });
+  }
+});
+
+// Same arguments and result as the find_similar_examples RPC
+app.post('/api/store/find-similar-examples', async (req, res) => {
+  try {
+    const query = req.body as SimilarExamplesQuery;
+    if (!Array.isArray(query.query_embedding) || !query.query_embedding.every(value => typeof value === 'number')) {
+      throw new StoreError('query_embedding must be an array of numbers', 400);
+    }
+    res.json({ examples: await getLocalVectorStore().findSimilarExamples(query) });
+  } catch (error) {
+    console.error('Local store error:', error);
+    const { status, message } = describeStoreError(error);
+    res.status(status).json({ error: message });
+  }
+});
+
+// Cached embeddings are per model: `model` is required
+app.get('/api/store/embedding-cache/:textHash', async (req, res) => {
+  try {
+    const { model } = req.query;
+    if (typeof model !== 'string' || !model) {
+      throw new StoreError('model is required', 400);
+    }
+    const embedding = await getLocalVectorStore().getCachedEmbedding(req.params.textHash, model);
+    if (!embedding) return res.status(404).json({ error: 'Not cached' });
+    res.json({ embedding });
+  } catch (error) {
+    console.error('Local store error:', error);
+    const { status, message } = describeStoreError(error);
+    res.status(status).json({ error: message });
+  }
+});
+
+app.post('/api/store/embedding-cache', async (req, res) => {
+  try {
+    const { text, text_hash: textHash, embedding, embedding_model: model } = req.body;
+    if (typeof text !== 'string' || typeof textHash !== 'string' || !Array.isArray(embedding) || typeof model !== 'string' || !model) {
+      throw new StoreError('text, text_hash, embedding and embedding_model are required', 400);
+    }
+    await getLocalVectorStore().cacheEmbedding(text, textHash, embedding, model);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Local store error:', error);
+    const { status, message } = describeStoreError(error);
+    res.status(status).json({ error: message });
+  }
+});
+
+// Unexpired entries only; each read counts a hit
+app.get('/api/store/generation-cache/:cacheKey', async (req, res) => {
+  try {
+    const content = await getLocalVectorStore().getCachedGeneration(req.params.cacheKey);
+    if (content === null) return res.status(404).json({ error: 'Not cached' });
+    res.json({ content });
+  } catch (error) {
+    console.error('Local store error:', error);
+    const { status, message } = describeStoreError(error);
+    res.status(status).json({ error: message });
+  }
+});
+
+app.put('/api/store/generation-cache/:cacheKey', async (req, res) => {
+  try {
+    const { content, expires_at: expiresAt } = req.body;
+    if (content === undefined || typeof expiresAt !== 'string' || Number.isNaN(Date.parse(expiresAt))) {
+      throw new StoreError('content and an ISO expires_at are required', 400);
+    }
+    await getLocalVectorStore().cacheGeneration(req.params.cacheKey, content, expiresAt);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Local store error:', error);
+    const { status, message } = describeStoreError(error);
+    res.status(status).json({ error: message });
+  }
+});
+
+app.delete('/api/store/generation-cache', async (_req, res) => {
+  try {
+    await getLocalVectorStore().clearGenerationCache();
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Local store error:', error);
+    const { status, message } = describeStoreError(error);
+    res.status(status).json({ error: message });
+  }
+});
+
 // GraphRAG status endpoint
-app.get('/api/graphrag-status', (req, res) => {
+app.get('/api/graphrag-status', (_req, res) => {
   res.json({
     isInitialized: true,
     hasOpenAI: !!process.env.OPENAI_API_KEY,
     graphSize: 7, // Number of examples in knowledge graph
     endpoints: {
-      generatePositioning: '/api/generate-positioning'
+      generatePositioning: '/api/generate-positioning',
+      generatePositioningStream: '/api/generate-positioning/stream'
     }
   });
 });
 
 // Error handling middleware
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
   console.error('Server Error:', err);
   res.status(500).json({ error: 'Internal server error' });
 });
 
 // 404 handler
-app.use((req, res) => {
+app.use((_req, res) => {
   res.status(404).json({ error: 'Endpoint not found' });
 });
 
+// Refuse to start on a provider setup that would reject or misroute every request
+try {
+  validateProviderConfig();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
 app.listen(PORT, () => {
   console.log(`🚀 Positioning Visualizer API server running on port ${PORT}`);
   console.log(`🔒 Security: CORS, Helmet, Rate Limiting enabled`);
   console.log(`🤖 OpenAI: ${process.env.OPENAI_API_KEY ? '✅ Configured' : '❌ Not configured'}`);
+  console.log(`🧩 Default LLM provider: ${getProviderStatus().default}`);
+  if (isMockMode()) {
+    console.log(`🧪 Mock mode: deterministic completions and embeddings, no external calls`);
+  }
+  if (isLocalStoreEnabled()) {
+    console.log(`🗂️  Vector store: local JSON file (${process.env.LOCAL_STORE_PATH || 'data/local-store.json'})`);
+  }
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
 });
 
@@ -0,0 +1,130 @@
+import { MockProvider } from './mockProvider.js';
+import { OpenAIProvider } from './openaiProvider.js';
+import { ProviderError, type LLMProvider, type ProviderName } from './types.js';
+
+export * from './types.js';
+
+const PROVIDER_NAMES: ProviderName[] = ['openai', 'local', 'mock'];
+
+let providers: Record<ProviderName, LLMProvider> | null = null;
+
+// Built on first use so dotenv has loaded; API clients are created lazily inside each provider
+function getProviders(): Record<ProviderName, LLMProvider> {
+  if (providers) return providers;
+
+  providers = {
+    openai: new OpenAIProvider({
+      name: 'openai',
+      apiKey: process.env.OPENAI_API_KEY,
+      completionModel: process.env.OPENAI_COMPLETION_MODEL || 'gpt-4o-mini',
+      embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-ada-002'
+    }),
+    // OpenAI-compatible endpoint on the local network, e.g. Ollama (http://localhost:11434/v1) or llama.cpp
+    local: new OpenAIProvider({
+      name: 'local',
+      apiKey: process.env.LOCAL_LLM_BASE_URL ? process.env.LOCAL_LLM_API_KEY || 'local' : undefined,
+      baseURL: process.env.LOCAL_LLM_BASE_URL,
+      completionModel: process.env.LOCAL_LLM_COMPLETION_MODEL || 'llama3.1',
+      embeddingModel: process.env.LOCAL_LLM_EMBEDDING_MODEL || 'nomic-embed-text'
+    }),
+    mock: new MockProvider()
+  };
+  return providers;
+}
+
+function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === 'string' && PROVIDER_NAMES.includes(value as ProviderName);
+}
+
+// MOCK_MODE=true pins every request to the mock provider, whatever the client asks for
+export function isMockMode(): boolean {
+  return process.env.MOCK_MODE === 'true';
+}
+
+export function getDefaultProviderName(): ProviderName {
+  if (isMockMode()) return 'mock';
+  const configured = process.env.LLM_PROVIDER;
+  return isProviderName(configured) ? configured : 'openai';
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+// LLM_ALLOWED_PROVIDERS restricts what clients may request, e.g. "local,mock" keeps data on-network.
+// Unset, every provider is allowed, openai included.
+export function getAllowedProviderNames(): ProviderName[] {
+  const allowed = parseList(process.env.LLM_ALLOWED_PROVIDERS);
+  if (allowed.length === 0) return PROVIDER_NAMES;
+  return allowed.filter(isProviderName);
+}
+
+// Throws on a provider setup every request would trip over; the server checks it at startup
+export function validateProviderConfig(): void {
+  const configured = process.env.LLM_PROVIDER;
+  if (configured && !isProviderName(configured)) {
+    throw new ProviderError(`LLM_PROVIDER '${configured}' is not one of: ${PROVIDER_NAMES.join(', ')}`, 500);
+  }
+
+  const unknown = parseList(process.env.LLM_ALLOWED_PROVIDERS).filter(name => !isProviderName(name));
+  if (unknown.length > 0) {
+    throw new ProviderError(`LLM_ALLOWED_PROVIDERS has unknown providers: ${unknown.join(', ')}`, 500);
+  }
+
+  const defaultName = getDefaultProviderName();
+  if (!isMockMode() && !getAllowedProviderNames().includes(defaultName)) {
+    throw new ProviderError(`The default provider '${defaultName}' (LLM_PROVIDER) is not in LLM_ALLOWED_PROVIDERS`, 500);
+  }
+}
+
+// A client may only pick the provider's configured model or one listed in LLM_ALLOWED_MODELS, so it cannot
+// send data to, or run up cost on, a model the operator did not choose. The mock accepts any name.
+export function resolveModel(provider: LLMProvider, requested: unknown, kind: 'completion' | 'embedding'): string | undefined {
+  if (requested === undefined || requested === null || requested === '') return undefined;
+  if (typeof requested !== 'string') {
+    throw new ProviderError('model must be a string', 400);
+  }
+
+  const configured = kind === 'completion' ? provider.defaultCompletionModel : provider.defaultEmbeddingModel;
+  if (provider.name !== 'mock' && requested !== configured && !parseList(process.env.LLM_ALLOWED_MODELS).includes(requested)) {
+    throw new ProviderError(`Model '${requested}' is not allowed on this server`, 403);
+  }
+  return requested;
+}
+
+// Resolve the provider for a request: explicit choice if allowed, otherwise the env default
+export function resolveProvider(requested?: unknown): LLMProvider {
+  if (isMockMode()) return getProviders().mock;
+
+  if (requested !== undefined && !isProviderName(requested)) {
+    throw new ProviderError(`Unknown provider. Expected one of: ${PROVIDER_NAMES.join(', ')}`, 400);
+  }
+
+  const name = (requested as ProviderName | undefined) || getDefaultProviderName();
+  if (!getAllowedProviderNames().includes(name)) {
+    throw new ProviderError(`Provider '${name}' is not allowed on this server`, 403);
+  }
+
+  const provider = getProviders()[name];
+  if (!provider.isConfigured()) {
+    throw new ProviderError(`Provider '${name}' is not configured on server`, 503);
+  }
+
+  return provider;
+}
+
+export function getProviderStatus() {
+  const allowed = getAllowedProviderNames();
+  const providers = getProviders();
+  return {
+    mockMode: isMockMode(),
+    default: getDefaultProviderName(),
+    providers: PROVIDER_NAMES.map(name => ({
+      name,
+      configured: providers[name].isConfigured(),
+      allowed: allowed.includes(name),
+      completionModel: providers[name].defaultCompletionModel,
+      embeddingModel: providers[name].defaultEmbeddingModel
+    }))
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { parseStructuredVariants } from '@/lib/structuredOutput';
+import { MockProvider } from './mockProvider.js';
+
+const prompt = `Create positioning for:
+Primary Anchor: Customer data platform (Product Category)
+Secondary Anchor: Mid-market retailers (Company Type)
+ICP: Retail marketing teams
+Problem: Customer data is scattered across tools.
+Differentiator: Unifies profiles in real time.`;
+
+const request = { systemPrompt: 'You write positioning.', prompt, temperature: 0.3, top_p: 0.8, max_tokens: 800 };
+const jsonSchema = { name: 'positioning', strict: true, schema: {} };
+
+describe('MockProvider', () => {
+  const provider = new MockProvider();
+
+  it('returns the same completion for the same prompt', async () => {
+    const first = await provider.complete(request);
+    expect((await provider.complete(request)).content).toBe(first.content);
+    expect(first.content).toContain('Customer data platform');
+  });
+
+  it('streams the same content it completes', async () => {
+    let streamed = '';
+    for await (const delta of provider.streamComplete({ ...request, jsonSchema })) streamed += delta;
+    expect(streamed).toBe((await provider.complete({ ...request, jsonSchema })).content);
+  });
+
+  it('writes structured variants the app accepts', async () => {
+    const { content } = await provider.complete({ ...request, jsonSchema, variantCount: 3 });
+    const variants = parseStructuredVariants(content);
+    expect(variants).toHaveLength(3);
+    expect(new Set(variants.map(variant => variant.headline)).size).toBe(3);
+  });
+
+  it('embeds identical text identically and related text closer than unrelated text', async () => {
+    const cosine = (a: number[], b: number[]) =>
+      a.reduce((sum, value, i) => sum + value * b[i], 0) / Math.sqrt(a.reduce((s, v) => s + v * v, 0) * b.reduce((s, v) => s + v * v, 0));
+    const [base, same, related, unrelated] = await Promise.all([
+      'customer data platform for retailers',
+      'customer data platform for retailers',
+      'customer data platform for banks',
+      'payroll software for restaurants'
+    ].map(async text => (await provider.embed(text)).embedding));
+
+    expect(same).toEqual(base);
+    expect(base).toHaveLength(1536);
+    expect(cosine(base, related)).toBeGreaterThan(cosine(base, unrelated));
+  });
+});
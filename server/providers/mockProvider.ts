@@ -0,0 +1,186 @@
+import { createHash } from 'crypto';
+import type {
+  CompletionRequest,
+  CompletionResult,
+  EmbeddingResult,
+  LLMProvider
+} from './types.js';
+
+// Matches text-embedding-ada-002 so mock vectors fit the VECTOR(1536) columns
+const MOCK_EMBEDDING_DIMENSIONS = 1536;
+
+// Words too common to carry meaning in the hashed bag-of-words embedding
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'your', 'you', 'are', 'our',
+  'their', 'they', 'into', 'have', 'has', 'all', 'can', 'not', 'but', 'its', 'was'
+]);
+
+// Fields the RAG prompt lists under "Create positioning for:"
+interface PromptFields {
+  primaryAnchor: string;
+  secondaryAnchor: string;
+  icp: string[];
+  problem: string;
+  differentiator: string;
+}
+
+// Deterministic stand-in for CI and offline work: same input, same output, no network.
+// Completions are assembled from the positioning inputs found in the prompt; embeddings are
+// hashed bag-of-words vectors, so texts sharing vocabulary land close together.
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly defaultCompletionModel = 'mock-completion';
+  readonly defaultEmbeddingModel = 'mock-embedding';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const content = this.buildCompletion(request);
+    return {
+      content,
+      model: request.model || this.defaultCompletionModel,
+      usage: {
+        promptTokens: this.countTokens(request.prompt),
+        completionTokens: this.countTokens(content),
+        totalTokens: this.countTokens(request.prompt) + this.countTokens(content)
+      }
+    };
+  }
+
+  async *streamComplete(request: CompletionRequest): AsyncIterable<string> {
+    const content = this.buildCompletion(request);
+    // Emit in small fixed-size chunks so streaming clients see progressive output
+    for (let i = 0; i < content.length; i += 12) {
+      if (request.signal?.aborted) return;
+      yield content.slice(i, i + 12);
+    }
+  }
+
+  async embed(text: string, model?: string): Promise<EmbeddingResult> {
+    return {
+      embedding: this.buildEmbedding(text),
+      model: model || this.defaultEmbeddingModel,
+      usage: { promptTokens: this.countTokens(text), totalTokens: this.countTokens(text) }
+    };
+  }
+
+  private buildCompletion(request: CompletionRequest): string {
+    // Multi-turn requests: the inputs come from the first turn, the seed from the whole exchange
+    const conversation = [...(request.history || []).map(turn => turn.content), request.prompt].join('\n\n');
+    const seed = createHash('sha256').update(conversation).digest();
+    const fields = this.extractPromptFields(conversation);
+    const buildCopy = (variant: number) => fields
+      ? this.composeCopy(fields, seed, variant)
+      : {
+          headline: `Mock headline ${seed.toString('hex').slice(0, 8)}${variant > 0 ? ` (${variant + 1})` : ''}`,
+          subheadline: `Mock subheadline generated from prompt ${seed.toString('hex').slice(0, 8)}.`,
+          opportunity: `Mock opportunity statement for prompt ${seed.toString('hex').slice(0, 8)}.`
+        };
+
+    const variantCount = request.variantCount || 1;
+    if (request.jsonSchema && variantCount > 1) {
+      return JSON.stringify({ variants: Array.from({ length: variantCount }, (_, i) => buildCopy(i)) });
+    }
+
+    const copy = buildCopy(0);
+    if (request.jsonSchema) {
+      return JSON.stringify(copy);
+    }
+
+    return `HEADLINE: ${copy.headline}\nSUBHEADLINE: ${copy.subheadline}\nOPPORTUNITY: ${copy.opportunity}`;
+  }
+
+  private extractPromptFields(prompt: string): PromptFields | null {
+    // Retrieved examples above this marker use the same labels; only read the user's inputs
+    const markerIndex = prompt.indexOf('Create positioning for:');
+    const inputs = markerIndex === -1 ? prompt : prompt.slice(markerIndex);
+
+    const read = (label: string) => {
+      const match = inputs.match(new RegExp(`^${label}: (.*?)(?: \\((?:[^()]*)\\))?$`, 'm'));
+      return match ? match[1].trim() : '';
+    };
+
+    const primaryAnchor = read('Primary Anchor');
+    if (!primaryAnchor) return null;
+
+    return {
+      primaryAnchor,
+      secondaryAnchor: read('Secondary Anchor'),
+      icp: read('ICP').split(',').map(segment => segment.trim()).filter(Boolean),
+      problem: read('Problem'),
+      differentiator: read('Differentiator')
+    };
+  }
+
+  // Pick among fixed templates using bytes of the prompt hash, so a given prompt always reads the same.
+  // Each variant steps to the next template so candidates differ.
+  private composeCopy(fields: PromptFields, seed: Buffer, variant = 0) {
+    const { primaryAnchor, secondaryAnchor, icp, problem, differentiator } = fields;
+    const audience = [secondaryAnchor, icp[0]].filter(Boolean).join(' ') || 'growing teams';
+    const problemClause = this.trimSentence(problem) || 'teams lose time to manual work';
+    const solutionClause = this.trimSentence(differentiator) || `${primaryAnchor} removes the busywork`;
+
+    const headlines = [
+      `${primaryAnchor} for ${audience}`,
+      `The ${primaryAnchor} built for ${audience}`,
+      `${primaryAnchor} that ${audience} actually use`
+    ];
+    const subheadlines = [
+      `${this.capitalize(problemClause)}. ${this.capitalize(solutionClause)}.`,
+      `While ${this.lowerFirst(problemClause)}, ${this.lowerFirst(solutionClause)}.`
+    ];
+    const segments = icp.length > 0 ? icp.join(', ') : audience;
+
+    return {
+      headline: headlines[(seed[0] + variant) % headlines.length],
+      subheadline: subheadlines[(seed[1] + variant) % subheadlines.length],
+      opportunity: `${this.capitalize(segments)} need ${primaryAnchor} that addresses this directly, an underserved segment for focused ${primaryAnchor} positioning.`
+    };
+  }
+
+  // Hashed bag-of-words (signed feature hashing) over unigrams and bigrams, L2-normalised
+  private buildEmbedding(text: string): number[] {
+    const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 2 && !STOP_WORDS.has(token));
+
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)
+    ];
+
+    // Empty or stop-word-only text still gets a stable, non-zero vector
+    if (features.length === 0) features.push(`__text__:${text}`);
+
+    for (const feature of features) {
+      const hash = createHash('sha256').update(feature).digest();
+      const index = hash.readUInt32BE(0) % MOCK_EMBEDDING_DIMENSIONS;
+      const sign = hash[4] & 1 ? 1 : -1;
+      vector[index] += sign * (feature.includes(' ') ? 0.5 : 1);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+  }
+
+  private trimSentence(text: string): string {
+    return text.replace(/\.{3}$/, '').replace(/[.!?\s]+$/, '').trim();
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  // Leaves acronyms such as "CRM" intact
+  private lowerFirst(text: string): string {
+    return /^[A-Z][a-z]/.test(text) ? text.charAt(0).toLowerCase() + text.slice(1) : text;
+  }
+
+  private countTokens(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+}
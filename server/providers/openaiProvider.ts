@@ -0,0 +1,113 @@
+import OpenAI from 'openai';
+import type {
+  CompletionRequest,
+  CompletionResult,
+  EmbeddingResult,
+  LLMProvider,
+  ProviderName
+} from './types.js';
+
+export interface OpenAIProviderConfig {
+  name: ProviderName;
+  apiKey?: string;
+  baseURL?: string;
+  completionModel: string;
+  embeddingModel: string;
+}
+
+// Works against api.openai.com and any OpenAI-compatible server (Ollama, llama.cpp, vLLM)
+export class OpenAIProvider implements LLMProvider {
+  readonly name: ProviderName;
+  readonly defaultCompletionModel: string;
+  readonly defaultEmbeddingModel: string;
+  private config: OpenAIProviderConfig;
+  private client: OpenAI | null = null;
+
+  constructor(config: OpenAIProviderConfig) {
+    this.config = config;
+    this.name = config.name;
+    this.defaultCompletionModel = config.completionModel;
+    this.defaultEmbeddingModel = config.embeddingModel;
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.apiKey;
+  }
+
+  // Created lazily so the server can start without credentials for unused providers
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.config.apiKey,
+        baseURL: this.config.baseURL
+      });
+    }
+    return this.client;
+  }
+
+  private buildParams(request: CompletionRequest) {
+    return {
+      model: request.model || this.defaultCompletionModel,
+      messages: [
+        { role: 'system' as const, content: request.systemPrompt },
+        ...(request.history || []).map(turn => ({ role: turn.role, content: turn.content })),
+        { role: 'user' as const, content: request.prompt }
+      ],
+      max_tokens: request.max_tokens,
+      temperature: request.temperature,
+      top_p: request.top_p,
+      ...(request.jsonSchema && {
+        response_format: { type: 'json_schema' as const, json_schema: request.jsonSchema }
+      })
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const params = this.buildParams(request);
+    const response = await this.getClient().chat.completions.create(params, { signal: request.signal });
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      model: response.model || params.model,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens,
+        completionTokens: response.usage?.completion_tokens,
+        totalTokens: response.usage?.total_tokens
+      }
+    };
+  }
+
+  async *streamComplete(request: CompletionRequest): AsyncIterable<string> {
+    const stream = await this.getClient().chat.completions.create(
+      { ...this.buildParams(request), stream: true },
+      { signal: request.signal }
+    );
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  async embed(text: string, model?: string): Promise<EmbeddingResult> {
+    const embeddingModel = model || this.defaultEmbeddingModel;
+    const response = await this.getClient().embeddings.create({
+      model: embeddingModel,
+      input: text
+    });
+
+    const embedding = response.data[0]?.embedding;
+    if (!embedding) {
+      throw new Error(`No embedding returned from ${this.name} provider`);
+    }
+
+    return {
+      embedding,
+      model: embeddingModel,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens,
+        totalTokens: response.usage?.total_tokens
+      }
+    };
+  }
+}
@@ -0,0 +1,67 @@
+// Shared contract for completion + embedding backends used by the API server
+
+export type ProviderName = 'openai' | 'local' | 'mock';
+
+export interface JsonSchemaFormat {
+  name: string;
+  strict: boolean;
+  schema: Record<string, unknown>;
+}
+
+// Earlier turns of a multi-turn exchange; `prompt` is always the final user turn
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model?: string;
+  systemPrompt: string;
+  prompt: string;
+  history?: ChatTurn[];
+  temperature: number;
+  top_p: number;
+  max_tokens: number;
+  jsonSchema?: JsonSchemaFormat;
+  variantCount?: number; // Candidates the prompt asks for; real models follow the prompt, the mock reads this
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface EmbeddingResult {
+  embedding: number[];
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly defaultCompletionModel: string;
+  readonly defaultEmbeddingModel: string;
+  isConfigured(): boolean;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  streamComplete(request: CompletionRequest): AsyncIterable<string>;
+  embed(text: string, model?: string): Promise<EmbeddingResult>;
+}
+
+// Raised for provider selection problems; `status` maps straight to the HTTP response
+export class ProviderError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,119 @@
+import { readFile } from 'fs/promises';
+import type { ExampleRow } from './types.js';
+
+// One entry of examples.json as curated (a series of JSON objects, not an array)
+export interface CuratedExample {
+  id: string;
+  company: string;
+  tagline: string;
+  homepage_url?: string;
+  anchor_type: 'Product Category' | 'Use Case' | 'Competitive Alternative';
+  industry: string;
+  effectiveness: 'very_high' | 'high' | 'medium' | 'low';
+  problem: string;
+  differentiator: string;
+  breadth_scale?: number;
+  icp: string[];
+  metadata?: {
+    main_value_props?: string[];
+    use_cases?: string[];
+    competitive_positioning?: string;
+    social_proof?: string[];
+    key_features?: string[];
+    [key: string]: unknown;
+  };
+}
+
+// Parse concatenated JSON objects; whitespace between them is the only separator allowed
+export function parseConcatenatedJson<T>(content: string): T[] {
+  const objects: T[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) objects.push(JSON.parse(content.slice(start, i + 1)) as T);
+    } else if (depth === 0 && !/\s/.test(char)) {
+      throw new Error(`Unexpected '${char}' between objects at offset ${i}`);
+    }
+  }
+
+  if (depth !== 0) throw new Error('Unterminated object at end of file');
+  return objects;
+}
+
+export async function readExamplesFile(path: string): Promise<CuratedExample[]> {
+  return parseConcatenatedJson<CuratedExample>(await readFile(path, 'utf-8'));
+}
+
+// Text an example is embedded from: company, positioning and the main metadata lists
+export function buildEmbeddingText(row: ExampleRow): string {
+  const list = (value: unknown) => (Array.isArray(value) ? value.join(' ') : '');
+  return [
+    row.company,
+    row.tagline,
+    row.problem,
+    row.differentiator,
+    row.icp.join(' '),
+    list(row.metadata.main_value_props),
+    list(row.metadata.use_cases),
+    row.industry
+  ].filter(Boolean).join(' ');
+}
+
+// Table row for a curated example, with the same defaults the Supabase ingestion applies
+export function toExampleRow(example: CuratedExample, id: number): ExampleRow {
+  const metadata = example.metadata || {};
+  return {
+    id,
+    company: example.company,
+    tagline: example.tagline,
+    anchor_type: example.anchor_type,
+    // The tagline is the main positioning statement
+    primary_anchor: example.tagline,
+    industry: example.industry,
+    // The table only allows high, medium and low
+    effectiveness: example.effectiveness === 'very_high' ? 'high' : example.effectiveness,
+    problem: example.problem,
+    differentiator: example.differentiator,
+    icp: example.icp,
+    tags: [
+      example.industry,
+      example.anchor_type.toLowerCase().replace(' ', '-'),
+      example.effectiveness,
+      ...(metadata.key_features?.slice(0, 3) || [])
+    ].filter(Boolean),
+    // The curated tone and structure are free text; retrieval filters on the app's own vocabulary
+    tone: 'professional',
+    structure: 'problem-solution',
+    secondary_anchors: {
+      homepage_url: example.homepage_url,
+      breadth_scale: example.breadth_scale,
+      competitive_positioning: metadata.competitive_positioning
+    },
+    metadata: {
+      original_id: example.id,
+      main_value_props: metadata.main_value_props,
+      use_cases: metadata.use_cases,
+      social_proof: metadata.social_proof,
+      key_features: metadata.key_features,
+      homepage_url: example.homepage_url,
+      breadth_scale: example.breadth_scale
+    }
+  };
+}
@@ -0,0 +1,24 @@
+import { LocalVectorStore } from './localVectorStore.js';
+
+export * from './types.js';
+export { LocalVectorStore } from './localVectorStore.js';
+export { buildEmbeddingText, readExamplesFile, toExampleRow } from './examplesFile.js';
+
+let localStore: LocalVectorStore | null = null;
+
+// VECTOR_STORE=local serves the example table, find_similar_examples and both caches from a JSON file
+// instead of Supabase, so the whole system runs without a database
+export function isLocalStoreEnabled(): boolean {
+  return process.env.VECTOR_STORE === 'local';
+}
+
+// Built on first use so dotenv has loaded
+export function getLocalVectorStore(): LocalVectorStore {
+  if (!localStore) {
+    localStore = new LocalVectorStore({
+      path: process.env.LOCAL_STORE_PATH || 'data/local-store.json',
+      examplesPath: process.env.EXAMPLES_PATH || 'examples.json'
+    });
+  }
+  return localStore;
+}
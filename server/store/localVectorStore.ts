@@ -0,0 +1,393 @@
+import { mkdir, readFile, rename, stat, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { readExamplesFile, toExampleRow } from './examplesFile.js';
+import type {
+  EmbeddingStatus,
+  ExampleRow,
+  GenerationCacheEntry,
+  LocalStoreData,
+  SimilarExample,
+  SimilarExamplesQuery,
+  StoredExample
+} from './types.js';
+import { StoreError } from './types.js';
+
+export interface LocalVectorStoreOptions {
+  path: string; // JSON file holding the examples, their embeddings and both caches
+  examplesPath: string; // examples.json, used to seed the store when the file does not exist yet
+}
+
+// find_similar_examples defaults
+const DEFAULT_MATCH_THRESHOLD = 0.7;
+const DEFAULT_MATCH_COUNT = 3;
+const DEFAULT_BOOST_WEIGHT = 0.05;
+
+// Generation cache hit counts are bumped in memory and written at most this often (or with the next write)
+const HIT_FLUSH_MS = 30_000;
+
+// Like the SQL function, boosts only rerank the nearest candidates
+function candidateCount(matchCount: number): number {
+  return Math.max(matchCount * 10, 50);
+}
+
+// Same normalisation as the SQL function: lowercase, spaces and hyphens as underscores
+function normalizeIndustry(industry: string): string {
+  return industry.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function withoutEmbedding(example: StoredExample): ExampleRow {
+  const row: Partial<StoredExample> = { ...example };
+  delete row.embedding;
+  delete row.embedding_model;
+  delete row.embedding_dimensions;
+  delete row.embedding_local;
+  delete row.embedding_local_model;
+  return row as ExampleRow;
+}
+
+// Like the SQL function: a query is compared against whichever embedding column has its dimension
+function embeddingFor(example: StoredExample, dimensions: number): { vector: number[]; model: string | null } | null {
+  if (example.embedding?.length === dimensions) {
+    return { vector: example.embedding, model: example.embedding_model };
+  }
+  if (example.embedding_local?.length === dimensions) {
+    return { vector: example.embedding_local, model: example.embedding_local_model ?? null };
+  }
+  return null;
+}
+
+function embeddingCacheKey(textHash: string, model: string): string {
+  return `${model}:${textHash}`;
+}
+
+// Version 1 files recorded no embedding models. Their vectors stay but match no model-checked query until
+// re-embedded; cached query embeddings are dropped.
+function upgradeStoreData(data: LocalStoreData | (Omit<LocalStoreData, 'version'> & { version: 1 })): LocalStoreData {
+  if (data.version === 2) return data;
+
+  console.warn('Upgraded the local vector store to record embedding models; run npm run examples -- embed to re-embed its examples');
+  return {
+    ...data,
+    version: 2,
+    examples: data.examples.map(example => ({
+      ...example,
+      embedding_model: null,
+      embedding_dimensions: example.embedding?.length ?? null,
+      embedding_local_model: null
+    })),
+    embeddingCache: {}
+  };
+}
+
+// In-process stand-in for the Supabase tables and find_similar_examples, persisted to one JSON file.
+// Brute-force cosine search is plenty for a curated corpus of a few hundred examples.
+export class LocalVectorStore {
+  private readonly options: LocalVectorStoreOptions;
+  private data: Promise<LocalStoreData> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private hitFlush: NodeJS.Timeout | null = null;
+  // The file as this process last read or wrote it, to notice writes from another process (the examples CLI)
+  private fileVersion: string | null = null;
+
+  constructor(options: LocalVectorStoreOptions) {
+    this.options = options;
+  }
+
+  async countExamples(): Promise<number> {
+    return (await this.load()).examples.length;
+  }
+
+  // Rows by id in the order given, or every row by id
+  async listExamples(ids?: number[]): Promise<ExampleRow[]> {
+    const { examples } = await this.load();
+    if (!ids) return examples.map(withoutEmbedding);
+
+    const byId = new Map(examples.map(example => [example.id, example]));
+    return ids.flatMap(id => {
+      const example = byId.get(id);
+      return example ? [withoutEmbedding(example)] : [];
+    });
+  }
+
+  // Mirrors find_similar_examples in supabase-setup.sql: the threshold applies to the raw similarity,
+  // boosts add boost_weight per matching column and the nearest candidates are ordered by the boosted score
+  async findSimilarExamples(query: SimilarExamplesQuery): Promise<SimilarExample[]> {
+    const { examples } = await this.load();
+    const threshold = query.match_threshold ?? DEFAULT_MATCH_THRESHOLD;
+    const weight = query.boost_weight ?? DEFAULT_BOOST_WEIGHT;
+    const matchCount = query.match_count ?? DEFAULT_MATCH_COUNT;
+    const allows = (allowed: string[] | null | undefined, value: string) =>
+      !allowed || allowed.length === 0 || allowed.includes(value);
+
+    const dimensions = query.query_embedding.length;
+    // Vectors from different models are never compared, even at the same dimension
+    const comparable = (example: StoredExample) => {
+      const stored = embeddingFor(example, dimensions);
+      return stored !== null && (!query.query_embedding_model || stored.model === query.query_embedding_model);
+    };
+
+    return examples
+      .filter(example =>
+        comparable(example) &&
+        allows(query.filter_anchor_types, example.anchor_type) &&
+        allows(query.filter_industries, normalizeIndustry(example.industry || '')) &&
+        allows(query.filter_effectiveness, example.effectiveness) &&
+        allows(query.filter_tones, (example.tone || '').toLowerCase())
+      )
+      .map(example => {
+        const similarity = cosineSimilarity(embeddingFor(example, dimensions)!.vector, query.query_embedding);
+        const boosts = [
+          example.anchor_type === query.boost_anchor_type,
+          normalizeIndustry(example.industry || '') === query.boost_industry,
+          example.effectiveness === query.boost_effectiveness,
+          (example.tone || '').toLowerCase() === query.boost_tone
+        ].filter(Boolean).length;
+        const row: Partial<ExampleRow> = withoutEmbedding(example);
+        delete row.metadata;
+        return { ...(row as Omit<ExampleRow, 'metadata'>), similarity, score: similarity + boosts * weight };
+      })
+      .filter(match => match.similarity > threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, candidateCount(matchCount))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, matchCount);
+  }
+
+  // Insert or replace by id; a new id is assigned when none is given. Embeddings are kept unless one is given.
+  async upsertExample(row: Omit<ExampleRow, 'id'> & { id?: number }, embedding?: { vector: number[]; model: string }): Promise<number> {
+    const data = await this.load();
+    const id = row.id ?? Math.max(0, ...data.examples.map(example => example.id)) + 1;
+    const index = data.examples.findIndex(example => example.id === id);
+    const previous = index >= 0 ? data.examples[index] : null;
+    const stored: StoredExample = {
+      ...row,
+      id,
+      embedding: embedding ? embedding.vector : previous?.embedding ?? null,
+      embedding_model: embedding ? embedding.model : previous?.embedding_model ?? null,
+      embedding_dimensions: embedding ? embedding.vector.length : previous?.embedding_dimensions ?? null,
+      embedding_local: previous?.embedding_local ?? null,
+      embedding_local_model: previous?.embedding_local_model ?? null
+    };
+
+    if (index >= 0) data.examples[index] = stored;
+    else data.examples.push(stored);
+    await this.save();
+    return id;
+  }
+
+  // Per row: which models its embeddings come from, without the vectors
+  async listEmbeddingStatus(): Promise<EmbeddingStatus[]> {
+    return (await this.load()).examples.map(example => ({
+      id: example.id,
+      company: example.company,
+      embedding_model: example.embedding ? example.embedding_model : null,
+      embedding_dimensions: example.embedding ? example.embedding.length : null,
+      embedding_local_model: example.embedding_local ? example.embedding_local_model ?? null : null,
+      needs_embedding: example.metadata.needs_embedding === true
+    }));
+  }
+
+  // Stores the vector with the model that produced it; filling `embedding` also clears needs_embedding
+  async setEmbedding(
+    id: number,
+    embedding: number[],
+    model: string,
+    column: 'embedding' | 'embedding_local' = 'embedding'
+  ): Promise<void> {
+    const example = (await this.load()).examples.find(row => row.id === id);
+    if (!example) throw new StoreError(`No example with id ${id}`, 404);
+
+    if (column === 'embedding_local') {
+      example.embedding_local = embedding;
+      example.embedding_local_model = model;
+    } else {
+      example.embedding = embedding;
+      example.embedding_model = model;
+      example.embedding_dimensions = embedding.length;
+      example.metadata = { ...example.metadata, needs_embedding: false, embedding_generated_at: new Date().toISOString() };
+    }
+    await this.save();
+  }
+
+  async deleteAllExamples(): Promise<void> {
+    (await this.load()).examples = [];
+    await this.save();
+  }
+
+  async countEmbeddingCache(): Promise<number> {
+    return Object.keys((await this.load()).embeddingCache).length;
+  }
+
+  // Returns how many entries were removed
+  async clearEmbeddingCache(): Promise<number> {
+    const data = await this.load();
+    const count = Object.keys(data.embeddingCache).length;
+    data.embeddingCache = {};
+    await this.save();
+    return count;
+  }
+
+  async getCachedEmbedding(textHash: string, model: string): Promise<number[] | null> {
+    return (await this.load()).embeddingCache[embeddingCacheKey(textHash, model)]?.embedding || null;
+  }
+
+  // Like the unique (text_hash, embedding_model) pair: the first embedding stored for a text and model wins
+  async cacheEmbedding(text: string, textHash: string, embedding: number[], model: string): Promise<void> {
+    const data = await this.load();
+    const key = embeddingCacheKey(textHash, model);
+    if (data.embeddingCache[key]) return;
+    data.embeddingCache[key] = {
+      text,
+      embedding,
+      embedding_model: model,
+      embedding_dimensions: embedding.length,
+      created_at: new Date().toISOString()
+    };
+    await this.save();
+  }
+
+  // Unexpired entry for the key, counting the hit. The count is not saved right away: a cache read must not
+  // rewrite the whole store file.
+  async getCachedGeneration(cacheKey: string): Promise<unknown | null> {
+    const data = await this.load();
+    const entry = data.generationCache[cacheKey];
+    if (!entry || new Date(entry.expires_at).getTime() <= Date.now()) return null;
+
+    entry.hit_count++;
+    this.scheduleHitFlush();
+    return entry.content;
+  }
+
+  async cacheGeneration(cacheKey: string, content: unknown, expiresAt: string): Promise<void> {
+    const data = await this.load();
+    const entry: GenerationCacheEntry = { content, created_at: new Date().toISOString(), expires_at: expiresAt, hit_count: 1 };
+    data.generationCache[cacheKey] = entry;
+    await this.save();
+  }
+
+  async countGenerationCache(): Promise<number> {
+    return Object.keys((await this.load()).generationCache).length;
+  }
+
+  // Returns how many entries were removed
+  async clearGenerationCache(): Promise<number> {
+    const data = await this.load();
+    const count = Object.keys(data.generationCache).length;
+    data.generationCache = {};
+    await this.save();
+    return count;
+  }
+
+  // Mirrors cleanup_expired_cache()
+  async cleanupExpiredCache(): Promise<number> {
+    const data = await this.load();
+    const now = Date.now();
+    const expired = Object.keys(data.generationCache)
+      .filter(key => new Date(data.generationCache[key].expires_at).getTime() < now);
+    expired.forEach(key => delete data.generationCache[key]);
+    if (expired.length > 0) await this.save();
+    return expired.length;
+  }
+
+  // Modification time and size, or null when there is no file yet
+  private async readFileVersion(): Promise<string | null> {
+    try {
+      const { mtimeMs, size } = await stat(this.options.path);
+      return `${mtimeMs}:${size}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Read again whenever another process changed the file since this one read or wrote it; changes not
+  // saved yet (pending hit counts) are dropped then
+  private async load(): Promise<LocalStoreData> {
+    if (this.data && (await this.readFileVersion()) !== this.fileVersion) {
+      this.data = null;
+    }
+    return this.read();
+  }
+
+  // Read once; a missing file is seeded from examples.json without embeddings
+  private read(): Promise<LocalStoreData> {
+    if (!this.data) {
+      this.data = this.readFileVersion()
+        .then(async version => {
+          this.fileVersion = version;
+          return upgradeStoreData(JSON.parse(await readFile(this.options.path, 'utf-8')));
+        })
+        .catch(async (error: NodeJS.ErrnoException) => {
+          if (error.code !== 'ENOENT') throw error;
+
+          const curated = await readExamplesFile(this.options.examplesPath);
+          console.warn(`Seeding local vector store from ${this.options.examplesPath} (${curated.length} examples, not embedded yet)`);
+          const seeded: LocalStoreData = {
+            version: 2,
+            examples: curated.map((example, index) => ({
+              ...toExampleRow(example, index + 1),
+              embedding: null,
+              embedding_model: null,
+              embedding_dimensions: null,
+              embedding_local: null,
+              embedding_local_model: null
+            })),
+            embeddingCache: {},
+            generationCache: {}
+          };
+          return seeded;
+        });
+      // Retry on the next call instead of remembering a read failure
+      this.data.catch(() => {
+        this.data = null;
+      });
+    }
+    return this.data;
+  }
+
+  // One write for all hits counted in the window; the timer never keeps the process alive
+  private scheduleHitFlush(): void {
+    if (this.hitFlush) return;
+    this.hitFlush = setTimeout(() => {
+      this.hitFlush = null;
+      this.save().catch(error => console.warn('Failed to save cache hit counts:', error));
+    }, HIT_FLUSH_MS);
+    this.hitFlush.unref();
+  }
+
+  // Writes are serialised and atomic (temp file, then rename) so a crash never leaves half a file. A file
+  // another process changed since it was read is never overwritten: the change made here is dropped and
+  // the write fails, so the caller can retry against the new contents.
+  private save(): Promise<void> {
+    // A failed write must not block the ones after it
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      const data = await this.read();
+      if ((await this.readFileVersion()) !== this.fileVersion) {
+        this.data = null;
+        throw new StoreError(`${this.options.path} was changed by another process; try again`, 409);
+      }
+
+      const tempPath = `${this.options.path}.tmp`;
+      await mkdir(dirname(this.options.path), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(data));
+      // Rename keeps the modification time; recorded with nothing awaited in between, so no load() in
+      // this process mistakes its own write for another one's
+      const { mtimeMs, size } = await stat(tempPath);
+      await rename(tempPath, this.options.path);
+      this.fileVersion = `${mtimeMs}:${size}`;
+    });
+    return this.saving;
+  }
+}
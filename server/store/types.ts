@@ -0,0 +1,95 @@
+// Shared contract for the local vector store. Row shapes mirror the Supabase tables in supabase-setup.sql
+// (positioning_examples_v2, embedding_cache, generation_cache) so clients see the same data either way.
+
+export interface ExampleRow {
+  id: number;
+  company: string;
+  tagline: string;
+  anchor_type: string;
+  primary_anchor: string;
+  problem: string;
+  differentiator: string;
+  industry: string;
+  effectiveness: string;
+  icp: string[];
+  tags: string[];
+  tone: string;
+  structure: string;
+  secondary_anchors: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+}
+
+export interface StoredExample extends ExampleRow {
+  embedding: number[] | null; // Null until embedded; such rows never match a vector search
+  embedding_model: string | null; // Model that produced `embedding`; queries from other models skip the row
+  embedding_dimensions: number | null;
+  embedding_local?: number[] | null; // Offline-model embedding, searched by queries of its dimension
+  embedding_local_model?: string | null;
+}
+
+// Which embeddings a row has, without the vectors; for status reports and choosing what to embed
+export interface EmbeddingStatus {
+  id: number;
+  company: string;
+  embedding_model: string | null;
+  embedding_dimensions: number | null;
+  embedding_local_model: string | null;
+  needs_embedding: boolean;
+}
+
+// Arguments of find_similar_examples. Industries are expected normalised ("market_research"), tones lowercase.
+export interface SimilarExamplesQuery {
+  query_embedding: number[];
+  query_embedding_model?: string | null; // Only rows embedded by this model are compared; null skips the check
+  match_threshold?: number;
+  match_count?: number;
+  filter_anchor_types?: string[] | null;
+  filter_industries?: string[] | null;
+  filter_effectiveness?: string[] | null;
+  filter_tones?: string[] | null;
+  boost_anchor_type?: string | null;
+  boost_industry?: string | null;
+  boost_effectiveness?: string | null;
+  boost_tone?: string | null;
+  boost_weight?: number;
+}
+
+// find_similar_examples returns the row without metadata, plus similarity and the boosted score
+export interface SimilarExample extends Omit<ExampleRow, 'metadata'> {
+  similarity: number;
+  score: number;
+}
+
+export interface EmbeddingCacheEntry {
+  text: string;
+  embedding: number[];
+  embedding_model: string;
+  embedding_dimensions: number;
+  created_at: string;
+}
+
+export interface GenerationCacheEntry {
+  content: unknown;
+  created_at: string;
+  expires_at: string;
+  hit_count: number;
+}
+
+// On-disk layout of the local store file. Version 1 files (no embedding models) are upgraded on load.
+export interface LocalStoreData {
+  version: 2;
+  examples: StoredExample[];
+  embeddingCache: Record<string, EmbeddingCacheEntry>; // By model and text_hash
+  generationCache: Record<string, GenerationCacheEntry>; // By cache_key
+}
+
+// Raised for bad store requests; `status` maps straight to the HTTP response
+export class StoreError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'StoreError';
+    this.status = status;
+  }
+}
@@ -1,12 +1,94 @@
-import { useState, useEffect, lazy, Suspense } from 'react';
+import { useState, useEffect, useRef, lazy, Suspense } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { VersionManager } from '@/components/forms/VersionManager';
 import { storageService } from '@/services/storageService';
-import type { CoreMessaging, GeneratedContent, PositioningVersion } from '@/types';
+import { BUILT_IN_GENERATION_PRESETS, DEFAULT_GENERATION_SETTINGS } from '@/data/generationPresets';
+import { coreMessagingFromExample } from '@/lib/exampleLibrary';
+import type {
+  CoreMessaging,
+  ExampleChoice,
+  ExampleSelection,
+  GeneratedContent,
+  GeneratedSection,
+  GenerationPreset,
+  GenerationRecord,
+  GenerationSettings,
+  GenerationTrace,
+  LibraryExample,
+  LockedSections,
+  PositioningVersion,
+} from '@/types';
+import type { FormSubmitOptions } from '@/components/forms/SimpleCoreMessagingForm';
+import type { ExampleChoiceKind } from '@/components/forms/ExampleSelectionPanel';
+import { Library } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 
 // Lazy load heavy components
 const PositioningCanvas = lazy(() => import('@/components/canvas/PositioningCanvas').then(module => ({ default: module.PositioningCanvas })));
 const SimpleCoreMessagingForm = lazy(() => import('@/components/forms/SimpleCoreMessagingForm').then(module => ({ default: module.SimpleCoreMessagingForm })));
+const RefinementPanel = lazy(() => import('@/components/forms/RefinementPanel').then(module => ({ default: module.RefinementPanel })));
+const GenerationTimeline = lazy(() => import('@/components/canvas/GenerationTimeline').then(module => ({ default: module.GenerationTimeline })));
+const ExampleSelectionPanel = lazy(() => import('@/components/forms/ExampleSelectionPanel').then(module => ({ default: module.ExampleSelectionPanel })));
+const GenerationInspector = lazy(() => import('@/components/canvas/GenerationInspector').then(module => ({ default: module.GenerationInspector })));
+const ExampleLibrary = lazy(() => import('@/components/library/ExampleLibrary').then(module => ({ default: module.ExampleLibrary })));
+
+// History entry for a finished generation or refinement
+function createGenerationRecord(
+  kind: GenerationRecord['kind'],
+  input: CoreMessaging,
+  content: GeneratedContent,
+  instruction?: string
+): GenerationRecord {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date(),
+    kind,
+    instruction,
+    input,
+    settings: input.generationSettings || DEFAULT_GENERATION_SETTINGS,
+    provider: content.provenance?.provider,
+    model: content.provenance?.model,
+    examples: content.provenance?.examples || [],
+    content,
+  };
+}
+
+// Content with variant `index` as the primary copy; unchanged when there is no such variant
+function withSelectedVariant(content: GeneratedContent, index: number | undefined): GeneratedContent {
+  const variant = index === undefined ? undefined : content.variants?.[index];
+  if (!variant) return content;
+
+  return {
+    ...content,
+    headline: variant.headline,
+    subheadline: variant.subheadline,
+    opportunity: variant.opportunity,
+    selectedVariant: index
+  };
+}
+
+// Text of the locked sections, which generation and refinement keep word for word
+function getLockedSections(content?: GeneratedContent): LockedSections {
+  const lockedSections: LockedSections = {};
+  content?.lockedSections?.forEach(section => {
+    lockedSections[section] = content[section];
+  });
+  return lockedSections;
+}
+
+// Move an example into the pinned or excluded list, or out of both; empty selections are dropped
+function applyExampleChoice(
+  selection: ExampleSelection | undefined,
+  example: ExampleChoice,
+  kind: ExampleChoiceKind | null
+): ExampleSelection | undefined {
+  const pinned = (selection?.pinned || []).filter(choice => choice.id !== example.id);
+  const excluded = (selection?.excluded || []).filter(choice => choice.id !== example.id);
+  if (kind === 'pinned') pinned.push(example);
+  if (kind === 'excluded') excluded.push(example);
+
+  return pinned.length > 0 || excluded.length > 0 ? { pinned, excluded } : undefined;
+}
 
 function App() {
   const [versions, setVersions] = useState<PositioningVersion[]>([]);
@@ -14,6 +96,17 @@ function App() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [llmStatus, setLlmStatus] = useState({ isInitialized: false, isInitializing: false });
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [streamingContent, setStreamingContent] = useState<Partial<GeneratedContent> | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [userPresets, setUserPresets] = useState<GenerationPreset[]>(() => storageService.loadPresets());
+  // Bumped to remount the form when restored inputs replace what it holds
+  const [formRevision, setFormRevision] = useState(0);
+  // Inspector record of the last generation; kept in memory only, per version
+  const [lastTrace, setLastTrace] = useState<{ versionId: string; trace: GenerationTrace } | null>(null);
+  const [isInspectorOpen, setIsInspectorOpen] = useState(false);
+  const [libraryExamples, setLibraryExamples] = useState<LibraryExample[]>([]);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
 
   // Initialize with saved data or default version and LLM
   useEffect(() => {
@@ -66,6 +159,7 @@ function App() {
         const { llmService } = await import('@/services/llmService');
         await llmService.initialize();
         setLlmStatus({ isInitialized: true, isInitializing: false });
+        setLibraryExamples(await llmService.listExamples());
       } catch (error) {
         console.error('LLM initialization failed:', error);
         setLlmStatus({ isInitialized: false, isInitializing: false });
@@ -76,12 +170,26 @@ function App() {
   }, []);
 
   const currentVersion = versions.find(v => v.id === currentVersionId);
+  // Read by updates that land after an await, when the user may have switched versions meanwhile
+  const currentVersionIdRef = useRef(currentVersionId);
+  currentVersionIdRef.current = currentVersionId;
 
-  const handleVersionCreate = (name: string) => {
+  // Applies the update to the latest versions, not the ones captured before an await, so versions
+  // created and variants picked during a generation survive it
+  const updateVersions = (update: (versions: PositioningVersion[]) => PositioningVersion[]) => {
+    setVersions(latest => {
+      const updatedVersions = update(latest);
+      storageService.autoSave(updatedVersions, currentVersionIdRef.current);
+      return updatedVersions;
+    });
+    setLastSaved(new Date());
+  };
+
+  const handleVersionCreate = (name: string, coreMessaging?: CoreMessaging) => {
     const newVersion: PositioningVersion = {
       id: Date.now().toString(),
       name,
-      coreMessaging: {
+      coreMessaging: coreMessaging || {
         primaryAnchor: { type: '', content: '' },
         secondaryAnchor: { type: '', content: '' },
         problem: '',
@@ -152,34 +260,68 @@ function App() {
       setVersions([defaultVersion]);
       setCurrentVersionId(defaultVersion.id);
       setLastSaved(null);
+      setUserPresets([]);
       
       console.log('All data cleared');
     }
   };
 
-  const handleFormSubmit = async (data: CoreMessaging) => {
+  const handleFormSubmit = async (data: CoreMessaging, submitOptions?: FormSubmitOptions) => {
     if (!currentVersionId) return;
 
     setIsGenerating(true);
+    setGenerationError(null);
+    setStreamingContent({});
+
+    // Locked sections survive regeneration word for word
+    const previousContent = versions.find(version => version.id === currentVersionId)?.generatedContent;
+    const lockedSectionNames = previousContent?.lockedSections || [];
+    const lockedSections = getLockedSections(previousContent);
+
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
 
     try {
-      // Dynamically import and generate content using LLM
+      // Dynamically import and generate content using LLM, streaming sections into the canvas
       const { llmService } = await import('@/services/llmService');
-      const generatedContent = await llmService.generatePositioning(data);
+      const generatedContent = await llmService.generatePositioning(data, {
+        onPartial: setStreamingContent,
+        signal: abortController.signal,
+        bypassCache: submitOptions?.bypassCache,
+        lockedSections,
+        exampleSelection: currentVersion?.exampleSelection,
+        onTrace: trace => setLastTrace({ versionId: currentVersionId, trace })
+      });
 
-      // Update the current version
-      const updatedVersions = versions.map(version => 
+      // Update the current version, keeping every earlier output in its history
+      const content = { ...generatedContent, lockedSections: lockedSectionNames };
+      const record = createGenerationRecord('generation', data, content);
+      updateVersions(latest => latest.map(version => 
         version.id === currentVersionId 
-          ? { ...version, coreMessaging: data, generatedContent }
+          ? {
+              ...version,
+              coreMessaging: data,
+              generatedContent: content,
+              history: [...(version.history || []), record],
+              currentGenerationId: record.id
+            }
           : version
-      );
-      setVersions(updatedVersions);
-      
-      // Auto-save updated content
-      storageService.autoSave(updatedVersions, currentVersionId);
-      setLastSaved(new Date());
+      ));
     } catch (error) {
+      // Cancelled by the user: keep whatever was there before
+      if (abortController.signal.aborted) {
+        console.log('Generation cancelled');
+        return;
+      }
+
       console.error('Generation failed:', error);
+
+      // Invalid model output: report it and keep the previous content rather than inventing copy
+      const { GenerationValidationError } = await import('@/lib/structuredOutput');
+      if (error instanceof GenerationValidationError) {
+        setGenerationError(`The AI response was invalid after ${error.attempts} attempts (${error.issues.join('; ')}). Please try again.`);
+        return;
+      }
       
       // Fallback to simple generation
       const fallbackContent: GeneratedContent = {
@@ -189,24 +331,217 @@ function App() {
         subheadline: `Positioning based on ${data.primaryAnchor.type.toLowerCase()}: ${data.primaryAnchor.content}`,
         thesis: data.thesis.filter(t => t.trim()),
         risks: data.risks.filter(r => r.trim()),
-        opportunity: `Market opportunity for ${data.primaryAnchor.content} targeting ${data.secondaryAnchor.content || 'target market'}`
+        opportunity: `Market opportunity for ${data.primaryAnchor.content} targeting ${data.secondaryAnchor.content || 'target market'}`,
+        ...lockedSections,
+        lockedSections: lockedSectionNames,
+        provenance: {
+          source: 'app-fallback',
+          cacheHit: false,
+          settings: data.generationSettings || DEFAULT_GENERATION_SETTINGS,
+          examples: []
+        }
       };
 
-      const updatedVersions = versions.map(version => 
+      const record = createGenerationRecord('generation', data, fallbackContent);
+      updateVersions(latest => latest.map(version => 
         version.id === currentVersionId 
-          ? { ...version, coreMessaging: data, generatedContent: fallbackContent }
+          ? {
+              ...version,
+              coreMessaging: data,
+              generatedContent: fallbackContent,
+              history: [...(version.history || []), record],
+              currentGenerationId: record.id
+            }
           : version
+      ));
+    } finally {
+      generationAbortRef.current = null;
+      setStreamingContent(null);
+      setIsGenerating(false);
+    }
+  };
+
+  // Promote a ranked variant to the version's primary copy
+  const handleSelectVariant = (index: number) => {
+    if (!currentVersionId) return;
+
+    const updatedVersions = versions.map(version => {
+      const variant = version.generatedContent?.variants?.[index];
+      if (version.id !== currentVersionId || !version.generatedContent || !variant) return version;
+
+      return {
+        ...version,
+        generatedContent: withSelectedVariant(version.generatedContent, index),
+        // Remember the pick on the history entry too, so restoring it brings back this variant
+        history: version.history?.map(record =>
+          record.id === version.currentGenerationId ? { ...record, selectedVariant: index } : record
+        )
+      };
+    });
+    setVersions(updatedVersions);
+
+    storageService.autoSave(updatedVersions, currentVersionId);
+    setLastSaved(new Date());
+  };
+
+  const handleToggleLock = (section: GeneratedSection) => {
+    if (!currentVersionId) return;
+
+    const updatedVersions = versions.map(version => {
+      if (version.id !== currentVersionId || !version.generatedContent) return version;
+
+      const locked = version.generatedContent.lockedSections || [];
+      return {
+        ...version,
+        generatedContent: {
+          ...version.generatedContent,
+          lockedSections: locked.includes(section)
+            ? locked.filter(name => name !== section)
+            : [...locked, section]
+        }
+      };
+    });
+    setVersions(updatedVersions);
+
+    storageService.autoSave(updatedVersions, currentVersionId);
+    setLastSaved(new Date());
+  };
+
+  // Regenerate the unlocked sections from the inputs last used for this version
+  const handleRegenerate = () => {
+    if (currentVersion) handleFormSubmit(currentVersion.coreMessaging);
+  };
+
+  // Conversational refinement of the current copy; the instruction is kept in the version's history
+  const handleRefine = async (instruction: string) => {
+    if (!currentVersion?.generatedContent) return;
+
+    const versionId = currentVersion.id;
+    const currentContent = currentVersion.generatedContent;
+
+    setIsGenerating(true);
+    setGenerationError(null);
+    setStreamingContent({});
+
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+
+    try {
+      const { llmService } = await import('@/services/llmService');
+      const { content, turn } = await llmService.refinePositioning(
+        currentVersion.coreMessaging,
+        currentContent,
+        instruction,
+        currentVersion.refinements,
+        {
+          onPartial: setStreamingContent,
+          signal: abortController.signal,
+          lockedSections: getLockedSections(currentContent),
+          exampleSelection: currentVersion.exampleSelection,
+          onTrace: trace => setLastTrace({ versionId, trace })
+        }
       );
-      setVersions(updatedVersions);
-      
-      // Auto-save fallback content
-      storageService.autoSave(updatedVersions, currentVersionId);
-      setLastSaved(new Date());
+
+      const refinedContent = { ...content, lockedSections: currentContent.lockedSections };
+      const record = createGenerationRecord('refinement', currentVersion.coreMessaging, refinedContent, instruction);
+      updateVersions(latest => latest.map(version =>
+        version.id === versionId
+          ? {
+              ...version,
+              generatedContent: refinedContent,
+              refinements: [...(version.refinements || []), turn],
+              history: [...(version.history || []), record],
+              currentGenerationId: record.id
+            }
+          : version
+      ));
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log('Refinement cancelled');
+        return;
+      }
+
+      console.error('Refinement failed:', error);
+
+      // Keep the current copy; a failed refinement should not replace it
+      const { GenerationValidationError } = await import('@/lib/structuredOutput');
+      setGenerationError(error instanceof GenerationValidationError
+        ? `The AI response was invalid after ${error.attempts} attempts (${error.issues.join('; ')}). Please try again.`
+        : 'Refinement failed. Please try again.');
     } finally {
+      generationAbortRef.current = null;
+      setStreamingContent(null);
       setIsGenerating(false);
     }
   };
 
+  // Make a past output current again, along with the inputs that produced it
+  const handleRestoreGeneration = (recordId: string) => {
+    if (!currentVersionId) return;
+
+    const updatedVersions = versions.map(version => {
+      const record = version.history?.find(entry => entry.id === recordId);
+      if (version.id !== currentVersionId || !record) return version;
+
+      return {
+        ...version,
+        coreMessaging: record.input,
+        generatedContent: withSelectedVariant(record.content, record.selectedVariant),
+        currentGenerationId: record.id
+      };
+    });
+    setVersions(updatedVersions);
+    setFormRevision(revision => revision + 1);
+
+    storageService.autoSave(updatedVersions, currentVersionId);
+    setLastSaved(new Date());
+  };
+
+  const handlePresetSave = (name: string, settings: GenerationSettings) => {
+    const updatedPresets = [...userPresets, { id: Date.now().toString(), name, settings }];
+    setUserPresets(updatedPresets);
+    storageService.savePresets(updatedPresets);
+  };
+
+  const handlePresetDelete = (presetId: string) => {
+    const updatedPresets = userPresets.filter(preset => preset.id !== presetId);
+    setUserPresets(updatedPresets);
+    storageService.savePresets(updatedPresets);
+  };
+
+  // Pin, exclude, or (kind null) clear the user's choice for one example on the current version
+  const handleExampleChoice = (example: ExampleChoice, kind: ExampleChoiceKind | null) => {
+    if (!currentVersionId) return;
+
+    const updatedVersions = versions.map(version =>
+      version.id === currentVersionId
+        ? { ...version, exampleSelection: applyExampleChoice(version.exampleSelection, example, kind) }
+        : version
+    );
+    setVersions(updatedVersions);
+
+    storageService.autoSave(updatedVersions, currentVersionId);
+    setLastSaved(new Date());
+  };
+
+  // New version with the form pre-filled from a library example
+  const handleStartFromExample = (example: LibraryExample) => {
+    handleVersionCreate(`From ${example.company}`, coreMessagingFromExample(example));
+    setIsLibraryOpen(false);
+  };
+
+  const handleLibrarySearch = async (text: string) => {
+    const { llmService } = await import('@/services/llmService');
+    return llmService.searchExamples(text);
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const closeInspector = () => setIsInspectorOpen(false);
+  const closeLibrary = () => setIsLibraryOpen(false);
+
   if (!currentVersion) {
     return (
       <AppLayout>
@@ -235,10 +570,92 @@ function App() {
           <Suspense fallback={<div className="h-96 bg-gray-100 rounded-lg animate-pulse flex items-center justify-center">Loading Canvas...</div>}>
             <PositioningCanvas 
               coreMessaging={currentVersion.coreMessaging}
-              generatedContent={currentVersion.generatedContent}
+              generatedContent={streamingContent
+                ? { headline: '', subheadline: '', opportunity: '', thesis: [], risks: [], ...streamingContent }
+                : currentVersion.generatedContent}
+              versionName={currentVersion.name}
+              createdAt={currentVersion.createdAt}
+              onSelectVariant={handleSelectVariant}
+              onToggleLock={isGenerating ? undefined : handleToggleLock}
+              onRegenerate={isGenerating ? undefined : handleRegenerate}
+              onInspect={() => setIsInspectorOpen(true)}
             />
           </Suspense>
+
+          {/* Show your work */}
+          {isInspectorOpen && (
+            <Suspense fallback={null}>
+              <GenerationInspector
+                trace={lastTrace?.versionId === currentVersionId ? lastTrace.trace : null}
+                onClose={closeInspector}
+                exampleSelection={currentVersion.exampleSelection}
+                onExampleChoice={isGenerating ? undefined : handleExampleChoice}
+              />
+            </Suspense>
+          )}
           
+          {/* Generation History */}
+          {currentVersion.history && currentVersion.history.length > 0 && (
+            <div className="rounded-lg border bg-card p-8 shadow-sm">
+              <h2 className="text-lg font-semibold mb-4">Generation History ({currentVersion.history.length})</h2>
+              <Suspense fallback={<div className="h-16 bg-gray-100 rounded-lg animate-pulse"></div>}>
+                <GenerationTimeline
+                  records={currentVersion.history}
+                  currentRecordId={currentVersion.currentGenerationId}
+                  onRestore={handleRestoreGeneration}
+                  disabled={isGenerating}
+                />
+              </Suspense>
+            </div>
+          )}
+
+          {/* Prompt Examples */}
+          <div className="rounded-lg border bg-card p-8 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold">Prompt Examples</h2>
+              <Button variant="outline" size="sm" onClick={() => setIsLibraryOpen(true)} disabled={libraryExamples.length === 0}>
+                <Library className="mr-2 h-4 w-4" />
+                Browse library
+              </Button>
+            </div>
+            <Suspense fallback={<div className="h-16 bg-gray-100 rounded-lg animate-pulse"></div>}>
+              <ExampleSelectionPanel
+                selection={currentVersion.exampleSelection}
+                examples={libraryExamples.filter(example => !example.builtIn)}
+                onChoose={handleExampleChoice}
+                disabled={isGenerating}
+              />
+            </Suspense>
+          </div>
+
+          {/* Example Library */}
+          {isLibraryOpen && (
+            <Suspense fallback={null}>
+              <ExampleLibrary
+                examples={libraryExamples}
+                onSearch={handleLibrarySearch}
+                onStartVersion={isGenerating ? undefined : handleStartFromExample}
+                onClose={closeLibrary}
+                selection={currentVersion.exampleSelection}
+                onChoose={isGenerating ? undefined : handleExampleChoice}
+              />
+            </Suspense>
+          )}
+
+          {/* Refinement Section */}
+          {currentVersion.generatedContent && (
+            <div className="rounded-lg border bg-card p-8 shadow-sm">
+              <h2 className="text-lg font-semibold mb-4">Refine Copy</h2>
+              <Suspense fallback={<div className="h-16 bg-gray-100 rounded-lg animate-pulse"></div>}>
+                <RefinementPanel
+                  history={currentVersion.refinements || []}
+                  onRefine={handleRefine}
+                  isGenerating={isGenerating}
+                />
+              </Suspense>
+            </div>
+          )}
+
           {/* Form Section */}
           <div className="rounded-lg border bg-card p-8 shadow-sm">
             <div className="flex items-center justify-between mb-6">
@@ -269,16 +686,31 @@ function App() {
                   <span className="flex items-center text-blue-600">
                     <div className="animate-spin h-4 w-4 border-2 border-blue-600 border-t-transparent rounded-full mr-2"></div>
                     Generating...
+                    <button
+                      type="button"
+                      onClick={handleCancelGeneration}
+                      className="ml-2 underline hover:text-blue-800"
+                    >
+                      Cancel
+                    </button>
                   </span>
                 )}
               </div>
             </div>
+            {generationError && (
+              <div className="mb-6 rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                {generationError}
+              </div>
+            )}
             <Suspense fallback={<div className="h-64 bg-gray-100 rounded-lg animate-pulse flex items-center justify-center">Loading Form...</div>}>
               <SimpleCoreMessagingForm 
-                key={currentVersionId} // Force re-render when version changes
+                key={`${currentVersionId}-${formRevision}`} // Force re-render when version changes or inputs are restored
                 onSubmit={handleFormSubmit}
                 defaultValues={currentVersion.coreMessaging}
                 isGenerating={isGenerating}
+                presets={[...BUILT_IN_GENERATION_PRESETS, ...userPresets]}
+                onPresetSave={handlePresetSave}
+                onPresetDelete={handlePresetDelete}
               />
             </Suspense>
           </div>
@@ -0,0 +1,221 @@
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { formatPromptRef } from '@/lib/promptRegistry';
+import type { ExampleChoice, ExampleSelection, GenerationSource, GenerationTrace, RetrievalMode } from '@/types';
+import type { ExampleChoiceKind } from '@/components/forms/ExampleSelectionPanel';
+import { Ban, Check, Pin, X } from 'lucide-react';
+
+interface GenerationInspectorProps {
+  trace: GenerationTrace | null;
+  onClose: () => void;
+  exampleSelection?: ExampleSelection;
+  onExampleChoice?: (example: ExampleChoice, kind: ExampleChoiceKind | null) => void;
+}
+
+const RETRIEVAL_LABELS: Record<RetrievalMode, string> = {
+  hybrid: 'Hybrid (vector + lexical)',
+  vector: 'Vector only',
+  lexical: 'Lexical only (embeddings unavailable)',
+  fallback: 'Built-in example (search unavailable)',
+};
+
+const formatScore = (score?: number) => (score === undefined ? '—' : score.toFixed(3));
+
+const SOURCE_LABELS: Record<GenerationSource, string> = {
+  live: 'Live generation',
+  cache: 'Served from cache',
+  'rag-fallback': 'Fallback template copy',
+  'app-fallback': 'Fallback template copy',
+};
+
+function InspectorSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-800">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+function CodeBlock({ text }: { text: string }) {
+  return (
+    <pre className="max-h-72 overflow-auto whitespace-pre-wrap break-words rounded border border-gray-200 bg-gray-50 p-3 text-xs text-gray-700">
+      {text}
+    </pre>
+  );
+}
+
+// "Show your work" drawer: what the last generation sent, retrieved and got back for this version
+export function GenerationInspector({ trace, onClose, exampleSelection, onExampleChoice }: GenerationInspectorProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const provenance = trace?.content?.provenance;
+  const choiceFor = (id: number): ExampleChoiceKind | null =>
+    exampleSelection?.pinned.some(choice => choice.id === id) ? 'pinned'
+      : exampleSelection?.excluded.some(choice => choice.id === id) ? 'excluded'
+        : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+      <aside className="relative flex h-full w-full max-w-xl flex-col bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b px-6 py-4">
+          <h2 className="text-lg font-semibold">Show your work</h2>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close inspector">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {!trace ? (
+          <p className="p-6 text-sm text-gray-500">
+            Generate or refine copy for this version to see the prompt, examples and model output behind it.
+          </p>
+        ) : (
+          <div className="flex-1 space-y-6 overflow-y-auto p-6 text-sm">
+            <InspectorSection title="Summary">
+              <dl className="grid grid-cols-[8rem_1fr] gap-y-1 text-xs">
+                <dt className="text-gray-500">Run</dt>
+                <dd>{trace.kind === 'refinement' ? 'Refinement' : 'Generation'} · {trace.createdAt.toLocaleString()}</dd>
+                <dt className="text-gray-500">Source</dt>
+                <dd>
+                  {provenance ? SOURCE_LABELS[provenance.source] : 'No copy produced'}
+                  {provenance?.degraded && ' · example search unavailable, built-in example used'}
+                </dd>
+                {provenance?.retrieval && (
+                  <>
+                    <dt className="text-gray-500">Retrieval</dt>
+                    <dd>{RETRIEVAL_LABELS[provenance.retrieval]}</dd>
+                  </>
+                )}
+                <dt className="text-gray-500">Model</dt>
+                <dd>{provenance?.model ? `${provenance.provider ? `${provenance.provider}/` : ''}${provenance.model}` : 'unknown'}</dd>
+                {provenance?.settings && (
+                  <>
+                    <dt className="text-gray-500">Settings</dt>
+                    <dd>Temperature {provenance.settings.temperature.toFixed(2)} · Top-p {provenance.settings.top_p.toFixed(2)}</dd>
+                  </>
+                )}
+              </dl>
+            </InspectorSection>
+
+            <InspectorSection title="Final prompt">
+              {trace.prompt ? (
+                <>
+                  <p className="text-xs text-gray-500">Template {formatPromptRef(trace.prompt.ref)}</p>
+                  <CodeBlock text={trace.prompt.text} />
+                </>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  {provenance?.cacheHit ? 'No prompt was sent; this copy came from the generation cache.' : 'No prompt was built.'}
+                </p>
+              )}
+            </InspectorSection>
+
+            <InspectorSection title={`Retrieved examples (${trace.examples.length})`}>
+              {trace.examples.length > 0 ? (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1 font-normal">Company</th>
+                      <th className="py-1 text-right font-normal">Similarity</th>
+                      <th className="py-1 text-right font-normal">BM25</th>
+                      <th className="py-1 text-right font-normal">Score</th>
+                      {onExampleChoice && <th className="py-1" />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {trace.examples.map(example => (
+                      <tr key={example.id} className="border-t border-gray-100">
+                        <td className="py-1">
+                          {example.company}
+                          {example.match?.pinned && <span className="ml-1 text-green-700">(pinned)</span>}
+                        </td>
+                        <td className="py-1 text-right tabular-nums">
+                          {formatScore(example.match ? example.match.vector : example.similarity)}
+                        </td>
+                        <td className="py-1 text-right tabular-nums">{formatScore(example.match?.lexical)}</td>
+                        <td className="py-1 text-right tabular-nums">{formatScore(example.match?.score)}</td>
+                        {onExampleChoice && (
+                          <td className="py-1 pl-2 text-right whitespace-nowrap">
+                            {(['pinned', 'excluded'] as const).map(kind => {
+                              const active = choiceFor(example.id) === kind;
+                              const Icon = kind === 'pinned' ? Pin : Ban;
+                              return (
+                                <button
+                                  key={kind}
+                                  type="button"
+                                  onClick={() => onExampleChoice({ id: example.id, company: example.company }, active ? null : kind)}
+                                  className={`ml-1 rounded p-1 hover:bg-gray-100 ${active ? (kind === 'pinned' ? 'text-green-700' : 'text-red-700') : 'text-gray-400'}`}
+                                  title={active ? `Undo ${kind === 'pinned' ? 'pin' : 'exclude'}` : kind === 'pinned' ? 'Pin for this version' : 'Exclude from this version'}
+                                >
+                                  <Icon className="h-3.5 w-3.5" />
+                                </button>
+                              );
+                            })}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-xs text-gray-500">No examples were retrieved.</p>
+              )}
+            </InspectorSection>
+
+            <InspectorSection title="Raw model output">
+              {trace.rawOutput ? <CodeBlock text={trace.rawOutput} /> : <p className="text-xs text-gray-500">No model output.</p>}
+            </InspectorSection>
+
+            <InspectorSection title="Parse result">
+              <p className={`text-xs font-medium ${trace.parse.ok ? 'text-green-700' : 'text-red-700'}`}>
+                {trace.parse.ok
+                  ? `Valid after ${trace.parse.attempts} attempt${trace.parse.attempts === 1 ? '' : 's'} · ${trace.parse.variantCount} variant${trace.parse.variantCount === 1 ? '' : 's'}`
+                  : `Failed${trace.parse.attempts > 0 ? ` after ${trace.parse.attempts} attempt${trace.parse.attempts === 1 ? '' : 's'}` : ''}`}
+              </p>
+              {trace.parse.issues.length > 0 && (
+                <ul className="list-disc space-y-0.5 pl-5 text-xs text-gray-600">
+                  {trace.parse.issues.map((issue, index) => <li key={index}>{issue}</li>)}
+                </ul>
+              )}
+              {trace.content && (
+                <dl className="grid grid-cols-[8rem_1fr] gap-y-1 text-xs">
+                  <dt className="text-gray-500">Headline</dt>
+                  <dd>{trace.content.headline}</dd>
+                  <dt className="text-gray-500">Subheadline</dt>
+                  <dd>{trace.content.subheadline}</dd>
+                  <dt className="text-gray-500">Opportunity</dt>
+                  <dd>{trace.content.opportunity}</dd>
+                </dl>
+              )}
+            </InspectorSection>
+
+            <InspectorSection title="Highlight mapping">
+              {trace.highlightChecks.length > 0 ? (
+                <ul className="space-y-1 text-xs">
+                  {trace.highlightChecks.map((check, index) => (
+                    <li key={index} className="flex items-start gap-2">
+                      {check.found
+                        ? <Check className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-green-600" />
+                        : <X className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-red-600" />}
+                      <span className="rounded px-1" style={{ backgroundColor: check.color }}>“{check.text}”</span>
+                      <span className="text-gray-500">{check.type}{check.found ? '' : ' · not in the copy'}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-gray-500">Nothing to highlight.</p>
+              )}
+            </InspectorSection>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
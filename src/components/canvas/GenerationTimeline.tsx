@@ -0,0 +1,71 @@
+import { Button } from '@/components/ui/button';
+import type { GenerationRecord } from '@/types';
+import { History, RotateCcw } from 'lucide-react';
+
+interface GenerationTimelineProps {
+  records: GenerationRecord[];
+  currentRecordId?: string;
+  onRestore: (recordId: string) => void;
+  disabled?: boolean;
+}
+
+export function GenerationTimeline({ records, currentRecordId, onRestore, disabled = false }: GenerationTimelineProps) {
+  if (records.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Generations for this version will appear here, so earlier outputs can be restored.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-3 border-l border-gray-200 pl-6">
+      {[...records].reverse().map(record => {
+        const isCurrent = record.id === currentRecordId;
+        // The variant picked on the canvas, which is what Restore brings back
+        const copy = (record.selectedVariant !== undefined && record.content.variants?.[record.selectedVariant]) || record.content;
+
+        return (
+          <li key={record.id} className="relative">
+            <span
+              className={`absolute -left-[1.95rem] top-3 h-3 w-3 rounded-full border-2 border-white ${isCurrent ? 'bg-green-600' : 'bg-gray-300'}`}
+            />
+            <div className={`rounded border p-3 text-xs ${isCurrent ? 'border-green-300 bg-green-50' : 'border-gray-200'}`}>
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center space-x-2 text-gray-500">
+                  <History className="h-3.5 w-3.5" />
+                  <span>{record.createdAt.toLocaleString()}</span>
+                  <span className="font-medium text-gray-700">
+                    {record.kind === 'refinement' ? `Refined: “${record.instruction}”` : 'Generated'}
+                  </span>
+                </div>
+                {isCurrent ? (
+                  <span className="font-medium text-green-600">Current</span>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={() => onRestore(record.id)} disabled={disabled}>
+                    <RotateCcw className="mr-2 h-3.5 w-3.5" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+
+              <p className="mt-2 text-sm font-medium text-gray-800">{copy.headline}</p>
+              <p className="text-gray-600">{copy.subheadline}</p>
+
+              <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-gray-500">
+                <span>Model: {record.model ? `${record.provider ? `${record.provider}/` : ''}${record.model}` : 'unknown'}</span>
+                <span>Temperature {record.settings.temperature.toFixed(2)} · Top-p {record.settings.top_p.toFixed(2)}</span>
+                {record.input.tone && <span>Tone: {record.input.tone}</span>}
+                <span>
+                  Examples: {record.examples.length > 0
+                    ? record.examples.map(example => `${example.company} (${(example.match?.score ?? example.similarity).toFixed(2)})`).join(', ')
+                    : 'none'}
+                </span>
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
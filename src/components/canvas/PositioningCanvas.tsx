@@ -1,177 +1,75 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Download } from 'lucide-react';
-import type { CoreMessaging, GeneratedContent } from '@/types';
+import { AlertTriangle, Download, Lock, RefreshCw, ScanSearch, Unlock } from 'lucide-react';
+import type { CoreMessaging, GeneratedContent, GeneratedSection, GenerationProvenance } from '@/types';
+import { buildHighlights, HIGHLIGHT_COLORS } from '@/lib/highlightMapping';
 
 interface PositioningCanvasProps {
   coreMessaging?: CoreMessaging;
   generatedContent?: GeneratedContent;
+  versionName?: string;
+  createdAt?: Date;
+  onSelectVariant?: (index: number) => void;
+  onToggleLock?: (section: GeneratedSection) => void;
+  onRegenerate?: () => void;
+  onInspect?: () => void; // Opens the "Show your work" drawer
 }
 
-// Intelligent phrase detection (same logic as backend debug system)
-function identifyGeneratedPhrases(generatedText: string, coreMessaging: CoreMessaging): Array<{text: string, color: string, type: string}> {
-  const phrases: Array<{text: string, color: string, type: string}> = [];
-  
-  // More precise approach: split by headline vs subheadline
-  // Assume the text format is: "HEADLINE: ... SUBHEADLINE: ..." 
-  // OR just "Headline text Subheadline text" where headline contains anchors
-  
-  let subheadlineText = generatedText;
-  
-  // If we have both anchors, find where they end and start from there
-  if (coreMessaging.primaryAnchor.content && coreMessaging.secondaryAnchor.content) {
-    const secondaryAnchor = coreMessaging.secondaryAnchor.content;
-    
-    // Find the last occurrence of the secondary anchor (headline should end after this)
-    const secondaryIndex = generatedText.toLowerCase().lastIndexOf(secondaryAnchor.toLowerCase());
-    if (secondaryIndex !== -1) {
-      // Start analyzing after the secondary anchor + some buffer
-      const headlineEnd = secondaryIndex + secondaryAnchor.length;
-      subheadlineText = generatedText.substring(headlineEnd).trim();
-    }
-  }
-  
-  // Split subheadline into logical sections (split on commas and conjunctions too)
-  const sentences = subheadlineText.split(/[.!?]+|,\s*but\s+|,\s*however\s+|,\s*and\s+our\s+/).filter(s => s.trim());
-  
-  // Key problem indicators (words that suggest this part is about the problem)
-  const problemIndicators = [
-    'lack', 'no', 'without', 'difficult', 'challenge', 'issue', 'problem', 'struggle', 
-    'fail', 'unable', 'can\'t', 'don\'t', 'until', 'before', 'complain', 'frustrated',
-    'slow', 'manual', 'inefficient', 'time-consuming', 'expensive', 'costly'
-  ];
-  
-  // Key solution indicators (words that suggest this part is about the solution)
-  const solutionIndicators = [
-    'predicts', 'provides', 'enables', 'allows', 'helps', 'gives', 'offers', 'delivers',
-    'our platform', 'our solution', 'we', 'automatically', 'proactive', 'advance',
-    'real-time', 'instant', 'fast', 'efficient', 'easy', 'simple', 'automated'
-  ];
-  
-  sentences.forEach(sentence => {
-    const lowerSentence = sentence.toLowerCase();
-    
-    // Count problem vs solution indicators
-    const problemScore = problemIndicators.reduce((score, indicator) => 
-      score + (lowerSentence.includes(indicator) ? 1 : 0), 0
-    );
-    
-    const solutionScore = solutionIndicators.reduce((score, indicator) => 
-      score + (lowerSentence.includes(indicator) ? 1 : 0), 0
-    );
-    
-    // Classify the sentence and break it into meaningful chunks
-    if (problemScore > solutionScore && problemScore > 0) {
-      // This sentence is about the problem
-      const chunks = breakIntoChunks(sentence.trim(), 4, 8);
-      chunks.forEach(chunk => {
-        phrases.push({
-          text: chunk,
-          color: '#fecaca', // red
-          type: 'Generated Problem Section'
-        });
-      });
-    } else if (solutionScore > 0) {
-      // This sentence is about the solution
-      const chunks = breakIntoChunks(sentence.trim(), 4, 8);
-      chunks.forEach(chunk => {
-        phrases.push({
-          text: chunk,
-          color: '#dcfce7', // green
-          type: 'Generated Solution Section'
-        });
-      });
-    }
-  });
-  
-  return phrases;
+// Lock toggle shown next to a generated section (left out of the PDF snapshot)
+function SectionLockButton({ section, locked, onToggle }: {
+  section: GeneratedSection;
+  locked: boolean;
+  onToggle: (section: GeneratedSection) => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => onToggle(section)}
+      className={`ml-2 inline-flex align-middle rounded p-0.5 ${locked ? 'text-amber-600 hover:text-amber-800' : 'text-gray-300 hover:text-gray-600'}`}
+      title={locked ? `Unlock ${section}` : `Lock ${section} (keep it when regenerating)`}
+      aria-pressed={locked}
+      data-html2canvas-ignore
+    >
+      {locked ? <Lock className="h-3.5 w-3.5" /> : <Unlock className="h-3.5 w-3.5" />}
+    </button>
+  );
 }
 
-// Break text into meaningful chunks of specified word length
-function breakIntoChunks(text: string, minWords: number, maxWords: number): string[] {
-  const words = text.split(' ').filter(w => w.length > 0);
-  const chunks: string[] = [];
-  
-  // Create overlapping chunks
-  for (let i = 0; i <= words.length - minWords; i++) {
-    const chunkLength = Math.min(maxWords, words.length - i);
-    if (chunkLength >= minWords) {
-      const chunk = words.slice(i, i + chunkLength).join(' ');
-      chunks.push(chunk);
-    }
+// Where the copy came from; fallback output is flagged so it is never mistaken for AI copy.
+// Stays in the PDF snapshot on purpose.
+function SourceBadge({ provenance }: { provenance: GenerationProvenance }) {
+  if (provenance.source === 'rag-fallback' || provenance.source === 'app-fallback') {
+    return (
+      <span
+        className="inline-flex items-center rounded border border-red-300 bg-red-50 px-2 py-0.5 text-xs font-medium text-red-700"
+        title={provenance.source === 'rag-fallback' ? 'Generation failed; template copy from the RAG service' : 'Generation failed; template copy built in the app'}
+      >
+        <AlertTriangle className="mr-1 h-3.5 w-3.5" />
+        Fallback copy — not AI generated
+      </span>
+    );
   }
-  
-  // Also add the full sentence if it's not too long
-  if (words.length <= maxWords) {
-    chunks.push(text);
+
+  const model = provenance.model ? `${provenance.provider ? `${provenance.provider}/` : ''}${provenance.model}` : undefined;
+  const label = [provenance.cacheHit ? 'Cached' : 'Live', model].filter(Boolean).join(' · ');
+
+  if (provenance.degraded) {
+    return (
+      <span
+        className="inline-flex items-center rounded border border-amber-300 bg-amber-50 px-2 py-0.5 text-xs font-medium text-amber-700"
+        title="Example search was unavailable; generated from the built-in example only"
+      >
+        <AlertTriangle className="mr-1 h-3.5 w-3.5" />
+        {label} · limited examples
+      </span>
+    );
   }
-  
-  return [...new Set(chunks)]; // Remove duplicates
-}
 
-// Merge overlapping phrases of the same color to create continuous highlights
-function mergeOverlappingPhrases(phrases: Array<{text: string, color: string, type: string}>, fullText: string): Array<{text: string, color: string, type: string}> {
-  if (phrases.length === 0) return [];
-  
-  // Group phrases by color
-  const phrasesGroupedByColor = phrases.reduce((groups, phrase) => {
-    if (!groups[phrase.color]) {
-      groups[phrase.color] = [];
-    }
-    groups[phrase.color].push(phrase);
-    return groups;
-  }, {} as Record<string, Array<{text: string, color: string, type: string}>>);
-  
-  const mergedPhrases: Array<{text: string, color: string, type: string}> = [];
-  
-  // Process each color group separately
-  Object.entries(phrasesGroupedByColor).forEach(([color, colorPhrases]) => {
-    // Find the positions of each phrase in the full text
-    const phrasePositions = colorPhrases.map(phrase => {
-      const index = fullText.toLowerCase().indexOf(phrase.text.toLowerCase());
-      return {
-        ...phrase,
-        start: index,
-        end: index + phrase.text.length
-      };
-    }).filter(p => p.start !== -1) // Only keep phrases that are actually found
-    .sort((a, b) => a.start - b.start); // Sort by position
-    
-    if (phrasePositions.length === 0) return;
-    
-    // Merge overlapping or adjacent phrases
-    const merged = [];
-    let currentMerged = phrasePositions[0];
-    
-    for (let i = 1; i < phrasePositions.length; i++) {
-      const current = phrasePositions[i];
-      
-      // If phrases overlap or are adjacent (allowing small gaps of 1-2 characters)
-      if (current.start <= currentMerged.end + 2) {
-        // Extend the current merged phrase
-        currentMerged.end = Math.max(currentMerged.end, current.end);
-      } else {
-        // No overlap, finalize current and start new one
-        merged.push(currentMerged);
-        currentMerged = current;
-      }
-    }
-    
-    // Don't forget the last phrase
-    merged.push(currentMerged);
-    
-    // Extract the merged text from the full text
-    merged.forEach(mergedPhrase => {
-      const mergedText = fullText.substring(mergedPhrase.start, mergedPhrase.end);
-      mergedPhrases.push({
-        text: mergedText,
-        color: color,
-        type: mergedPhrase.type
-      });
-    });
-  });
-  
-  return mergedPhrases;
+  return (
+    <span className="rounded border border-gray-200 px-2 py-0.5 text-xs text-gray-500">
+      {label}
+    </span>
+  );
 }
 
 // Helper function to create highlighted text
@@ -256,75 +154,109 @@ function createHighlightedText(text: string, highlights: { text: string; color:
   return elements.length > 0 ? elements : <span className="text-gray-800">{text}</span>;
 }
 
-export function PositioningCanvas({ coreMessaging, generatedContent }: PositioningCanvasProps) {
-  const handleExport = () => {
-    // TODO: Implement PDF export with jsPDF + html2canvas
-    console.log('Export to PDF');
-  };
+export function PositioningCanvas({
+  coreMessaging,
+  generatedContent: primaryContent,
+  versionName,
+  createdAt,
+  onSelectVariant,
+  onToggleLock,
+  onRegenerate,
+  onInspect,
+}: PositioningCanvasProps) {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
 
-  // Define highlight colors for different elements
-  const colors = {
-    primaryAnchor: '#fef3c7', // yellow
-    secondaryAnchor: '#dbeafe', // blue
-    problem: '#fecaca', // red
-    differentiator: '#dcfce7', // green
-    value: '#f3e8ff', // purple
-  };
+  // New variants (generation or version switch) start on the chosen primary
+  const variants = primaryContent?.variants;
+  useEffect(() => {
+    setPreviewIndex(null);
+  }, [variants]);
 
-  const getHighlights = (generatedText?: string) => {
-    if (!coreMessaging) return [];
-    
-    const highlights = [];
+  const selectedIndex = primaryContent?.selectedVariant ?? 0;
+  const activeIndex = previewIndex ?? selectedIndex;
+  const activeVariant = variants && variants.length > 1 ? variants[activeIndex] : undefined;
 
-    // Primary anchor - exact text
-    if (coreMessaging.primaryAnchor.content) {
-      highlights.push({ text: coreMessaging.primaryAnchor.content, color: colors.primaryAnchor });
-    }
+  // Copy on display: the variant being previewed, otherwise the primary
+  const generatedContent = primaryContent && activeVariant
+    ? {
+        ...primaryContent,
+        headline: activeVariant.headline,
+        subheadline: activeVariant.subheadline,
+        opportunity: activeVariant.opportunity,
+      }
+    : primaryContent;
 
-    // Secondary anchor - exact text
-    if (coreMessaging.secondaryAnchor.content) {
-      highlights.push({ text: coreMessaging.secondaryAnchor.content, color: colors.secondaryAnchor });
-    }
+  // Locks apply to the primary copy, so they are only offered while it is on display
+  const lockedSections = primaryContent?.lockedSections || [];
+  const canLock = !!onToggleLock && !!primaryContent?.headline && (!activeVariant || activeIndex === selectedIndex);
+  const lockButton = (section: GeneratedSection) => canLock && onToggleLock && (
+    <SectionLockButton section={section} locked={lockedSections.includes(section)} onToggle={onToggleLock} />
+  );
 
-    // ICP segments - exact text
-    if (coreMessaging.icp) {
-      coreMessaging.icp.forEach(icpSegment => {
-        if (icpSegment && icpSegment.trim()) {
-          highlights.push({ text: icpSegment.trim(), color: colors.secondaryAnchor });
-        }
-      });
-    }
+  const handleExport = async () => {
+    if (!canvasRef.current || isExporting) return;
 
-    // NEW: Use intelligent phrase detection for problem/solution sections
-    if (generatedText) {
-      const generatedPhrases = identifyGeneratedPhrases(generatedText, coreMessaging);
-      console.log('🔍 DEBUG: Generated phrases before merging:', generatedPhrases.map(p => `${p.color}: "${p.text}"`));
-      
-      const mergedPhrases = mergeOverlappingPhrases(generatedPhrases, generatedText);
-      console.log('🔗 DEBUG: Merged phrases:', mergedPhrases.map(p => `${p.color}: "${p.text}"`));
-      
-      mergedPhrases.forEach(phrase => {
-        highlights.push({ text: phrase.text, color: phrase.color });
+    setIsExporting(true);
+    try {
+      // Dynamically import the export service (pulls in jsPDF + html2canvas)
+      const { exportService } = await import('@/services/exportService');
+      await exportService.exportPositioningPdf({
+        canvasElement: canvasRef.current,
+        coreMessaging,
+        generatedContent,
+        versionName,
+        createdAt,
       });
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      alert('PDF export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
     }
-
-    return highlights.filter(highlight => highlight.text && highlight.text.trim());
   };
 
+  // Define highlight colors for different elements
+  const colors = HIGHLIGHT_COLORS;
+
+  const getHighlights = (generatedText?: string) =>
+    coreMessaging ? buildHighlights(coreMessaging, generatedText) : [];
 
   return (
-    <div className="relative bg-white border-2 border-gray-800 shadow-lg">
+    <div ref={canvasRef} className="relative bg-white border-2 border-gray-800 shadow-lg">
       {/* Header */}
       <div className="bg-white px-6 py-4 border-b-2 border-gray-800 flex items-center justify-between">
         <div className="flex items-center space-x-3">
           <div className="text-2xl font-bold text-gray-800">
             Positioning Strategy Visualizer
           </div>
+          {generatedContent?.provenance && <SourceBadge provenance={generatedContent.provenance} />}
+        </div>
+        <div className="flex items-center space-x-2" data-html2canvas-ignore>
+          {onRegenerate && lockedSections.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onRegenerate}
+              disabled={lockedSections.length === 3}
+              title={lockedSections.length === 3 ? 'Unlock a section to regenerate it' : 'Regenerate the unlocked sections'}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Regenerate unlocked
+            </Button>
+          )}
+          {onInspect && (
+            <Button variant="outline" size="sm" onClick={onInspect}>
+              <ScanSearch className="mr-2 h-4 w-4" />
+              Show your work
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting}>
+            <Download className="mr-2 h-4 w-4" />
+            {isExporting ? 'Exporting...' : 'Export PDF'}
+          </Button>
         </div>
-        <Button variant="outline" size="sm" onClick={handleExport}>
-          <Download className="mr-2 h-4 w-4" />
-          Export PDF
-        </Button>
       </div>
       
       <div className="p-1">
@@ -415,6 +347,7 @@ export function PositioningCanvas({ coreMessaging, generatedContent }: Positioni
                     ) :
                     generatedContent?.headline || 'Your Positioning Strategy'
                   }
+                  {lockButton('headline')}
                 </h2>
                 
                 <div className="text-sm space-y-2">
@@ -426,6 +359,7 @@ export function PositioningCanvas({ coreMessaging, generatedContent }: Positioni
                           generatedContent.subheadline,
                           getHighlights(`${generatedContent.headline} ${generatedContent.subheadline}`)
                         )}
+                        {lockButton('subheadline')}
                       </p>
                     </>
                   ) : (
@@ -451,13 +385,54 @@ export function PositioningCanvas({ coreMessaging, generatedContent }: Positioni
                     </>
                   )}
                 </div>
+
+                {generatedContent?.opportunity && (
+                  <p className="text-xs text-gray-500 italic">
+                    {generatedContent.opportunity}
+                    {lockButton('opportunity')}
+                  </p>
+                )}
               </div>
               
-              <div className="flex justify-center space-x-2 mt-4">
-                <div className="w-8 h-2 bg-gray-800 rounded"></div>
-                <div className="w-4 h-2 bg-gray-300 rounded"></div>
-                <div className="w-4 h-2 bg-gray-300 rounded"></div>
-              </div>
+              {variants && variants.length > 1 && activeVariant ? (
+                <div className="mt-4 space-y-2">
+                  <div className="flex justify-center space-x-2">
+                    {variants.map((variant, index) => (
+                      <button
+                        key={index}
+                        type="button"
+                        onClick={() => setPreviewIndex(index)}
+                        className={`h-2 rounded transition-all ${index === activeIndex ? 'w-8 bg-gray-800' : 'w-4 bg-gray-300 hover:bg-gray-400'}`}
+                        title={`Variant ${index + 1} (score ${variant.score})`}
+                        aria-label={`Show variant ${index + 1}`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-center space-x-2 text-xs text-gray-500">
+                    <span title={activeVariant.issues.join('\n') || 'No ranking issues'}>
+                      Variant {activeIndex + 1} of {variants.length} · score {activeVariant.score}
+                    </span>
+                    {activeIndex === selectedIndex ? (
+                      <span className="font-medium text-green-600">Primary</span>
+                    ) : onSelectVariant && (
+                      <button
+                        type="button"
+                        onClick={() => onSelectVariant(activeIndex)}
+                        className="underline hover:text-gray-800"
+                        data-html2canvas-ignore
+                      >
+                        Use this variant
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-center space-x-2 mt-4">
+                  <div className="w-8 h-2 bg-gray-800 rounded"></div>
+                  <div className="w-4 h-2 bg-gray-300 rounded"></div>
+                  <div className="w-4 h-2 bg-gray-300 rounded"></div>
+                </div>
+              )}
             </div>
           </div>
 
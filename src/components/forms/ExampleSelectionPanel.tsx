@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ExampleChoice, ExampleSelection, LibraryExample } from '@/types';
+import { Ban, Pin, X } from 'lucide-react';
+
+export type ExampleChoiceKind = 'pinned' | 'excluded';
+
+interface ExampleSelectionPanelProps {
+  selection?: ExampleSelection;
+  examples: LibraryExample[];
+  onChoose: (example: ExampleChoice, kind: ExampleChoiceKind | null) => void;
+  disabled?: boolean;
+}
+
+function ChoiceList({ title, description, choices, onRemove, disabled, tone }: {
+  title: string;
+  description: string;
+  choices: ExampleChoice[];
+  onRemove: (choice: ExampleChoice) => void;
+  disabled: boolean;
+  tone: 'green' | 'red';
+}) {
+  const chipClass = tone === 'green'
+    ? 'border-green-300 bg-green-50 text-green-800'
+    : 'border-red-300 bg-red-50 text-red-800';
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-gray-700">{title}</h3>
+      {choices.length === 0 ? (
+        <p className="text-xs text-gray-500">{description}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {choices.map(choice => (
+            <span key={choice.id} className={`inline-flex items-center rounded-full border px-3 py-1 text-xs ${chipClass}`}>
+              {choice.company}
+              <button
+                type="button"
+                onClick={() => onRemove(choice)}
+                disabled={disabled}
+                className="ml-1 rounded-full hover:opacity-70 disabled:opacity-50"
+                aria-label={`Remove ${choice.company}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Pin corpus examples into this version's prompt context or keep them out of it
+export function ExampleSelectionPanel({ selection, examples, onChoose, disabled = false }: ExampleSelectionPanelProps) {
+  const [selectedId, setSelectedId] = useState('');
+  const pinned = selection?.pinned || [];
+  const excluded = selection?.excluded || [];
+  const chosen = examples.find(example => String(example.id) === selectedId);
+
+  const choose = (kind: ExampleChoiceKind) => {
+    if (!chosen) return;
+    onChoose({ id: chosen.id, company: chosen.company }, kind);
+    setSelectedId('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Select value={selectedId} onValueChange={setSelectedId} disabled={disabled || examples.length === 0}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder={examples.length === 0 ? 'Example library unavailable' : 'Choose an example'} />
+          </SelectTrigger>
+          <SelectContent>
+            {examples.map(example => (
+              <SelectItem key={example.id} value={String(example.id)}>
+                {example.company} — {example.tagline}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" onClick={() => choose('pinned')} disabled={disabled || !chosen}>
+          <Pin className="mr-2 h-4 w-4" />
+          Pin
+        </Button>
+        <Button type="button" variant="outline" onClick={() => choose('excluded')} disabled={disabled || !chosen}>
+          <Ban className="mr-2 h-4 w-4" />
+          Exclude
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-8">
+        <ChoiceList
+          title="Pinned"
+          description="Pinned examples are always in the prompt, ahead of the retrieved ones."
+          choices={pinned}
+          onRemove={choice => onChoose(choice, null)}
+          disabled={disabled}
+          tone="green"
+        />
+        <ChoiceList
+          title="Excluded"
+          description="Excluded examples are never retrieved, and the AI is told not to echo them."
+          choices={excluded}
+          onRemove={choice => onChoose(choice, null)}
+          disabled={disabled}
+          tone="red"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { RefinementTurn } from '@/types';
+import { Sparkles } from 'lucide-react';
+
+interface RefinementPanelProps {
+  history: RefinementTurn[];
+  onRefine: (instruction: string) => void;
+  isGenerating?: boolean;
+}
+
+const SUGGESTED_INSTRUCTIONS = ['Make it punchier', 'Less jargon', 'Emphasize speed', 'More concrete'];
+
+export function RefinementPanel({ history, onRefine, isGenerating = false }: RefinementPanelProps) {
+  const [instruction, setInstruction] = useState('');
+
+  const submit = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isGenerating) return;
+    onRefine(trimmed);
+    setInstruction('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(instruction);
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder='Tell the AI how to revise the copy, e.g. "make it punchier"'
+          disabled={isGenerating}
+        />
+        <Button type="submit" disabled={isGenerating || !instruction.trim()}>
+          <Sparkles className="mr-2 h-4 w-4" />
+          Refine
+        </Button>
+      </form>
+
+      <div className="flex flex-wrap gap-2">
+        {SUGGESTED_INSTRUCTIONS.map(suggestion => (
+          <button
+            key={suggestion}
+            type="button"
+            onClick={() => submit(suggestion)}
+            disabled={isGenerating}
+            className="rounded-full border border-gray-300 px-3 py-1 text-xs text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+          >
+            {suggestion}
+          </button>
+        ))}
+      </div>
+
+      {history.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">Refinement history</h3>
+          <ol className="space-y-2">
+            {[...history].reverse().map((turn, index) => (
+              <li key={history.length - index} className="rounded border border-gray-200 p-3 text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-800">“{turn.instruction}”</span>
+                  <span className="text-gray-400">{turn.createdAt.toLocaleString()}</span>
+                </div>
+                <p className="mt-1 text-gray-500">{turn.revised.headline}</p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
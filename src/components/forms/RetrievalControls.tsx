@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type {
+  AnchorType,
+  ExampleEffectiveness,
+  RetrievalBoosts,
+  RetrievalFilters,
+  RetrievalSettings,
+  ToneSelector,
+} from '@/types';
+import { DEFAULT_DIVERSITY, DEFAULT_EXAMPLE_COUNT, MAX_EXAMPLE_COUNT } from '@/lib/hybridRetrieval';
+
+interface RetrievalControlsProps {
+  value: RetrievalSettings;
+  onChange: (value: RetrievalSettings) => void;
+  primaryAnchorType?: AnchorType | '';
+}
+
+const ANCHOR_TYPES: AnchorType[] = ['Product Category', 'Use Case', 'Competitive Alternative'];
+const EFFECTIVENESS: ExampleEffectiveness[] = ['high', 'medium', 'low'];
+const TONES: ToneSelector[] = ['professional', 'casual', 'technical'];
+
+// Radix Select items cannot use an empty value
+const NO_PREFERENCE = 'any';
+
+function splitList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function CheckboxGroup<T extends string>({ label, options, selected, onChange }: {
+  label: string;
+  options: T[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+}) {
+  const toggle = (option: T) =>
+    onChange(selected.includes(option) ? selected.filter(item => item !== option) : [...selected, option]);
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium text-gray-700">{label}</Label>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {options.map(option => (
+          <label key={option} className="flex items-center gap-2 text-sm capitalize text-gray-700">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={selected.includes(option)}
+              onChange={() => toggle(option)}
+            />
+            {option}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Metadata filters and boosts, count and diversity for the examples used as prompt context
+export function RetrievalControls({ value, onChange, primaryAnchorType }: RetrievalControlsProps) {
+  const filters = value.filters || {};
+  const boosts = value.boosts || {};
+  const exampleCount = value.exampleCount ?? DEFAULT_EXAMPLE_COUNT;
+  const diversity = value.diversity ?? DEFAULT_DIVERSITY;
+  // Kept as typed so commas and spaces survive until the list is parsed
+  const [industriesText, setIndustriesText] = useState((filters.industries || []).join(', '));
+
+  const updateFilters = (update: Partial<RetrievalFilters>) => onChange({ ...value, filters: { ...filters, ...update } });
+  const updateBoosts = (update: Partial<RetrievalBoosts>) => onChange({ ...value, boosts: { ...boosts, ...update } });
+
+  return (
+    <div className="space-y-6 p-4 bg-gray-50 rounded-lg border">
+      <div className="grid grid-cols-2 gap-8">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium text-gray-700">Examples in prompt</Label>
+            <span className="text-xs text-gray-500 font-medium">{exampleCount}</span>
+          </div>
+          <Slider
+            value={[exampleCount]}
+            onValueChange={(count) => onChange({ ...value, exampleCount: count[0] })}
+            min={1}
+            max={MAX_EXAMPLE_COUNT}
+            step={1}
+            className="mt-2"
+          />
+          <p className="text-xs text-gray-600 mt-1">More examples give the AI more patterns to draw on but a longer prompt</p>
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium text-gray-700">Example diversity</Label>
+            <span className="text-xs text-gray-500 font-medium">{Math.round(diversity * 100)}%</span>
+          </div>
+          <Slider
+            value={[Math.round(diversity * 100)]}
+            onValueChange={(percent) => onChange({ ...value, diversity: percent[0] / 100 })}
+            min={0}
+            max={100}
+            step={5}
+            className="mt-2"
+          />
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>Most similar</span>
+            <span>Most varied</span>
+          </div>
+          <p className="text-xs text-gray-600 mt-1">
+            Higher values avoid examples sharing a structure, anchor type or industry
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-4 pt-4 border-t border-gray-200">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-gray-900">Only use examples that match</h4>
+          {primaryAnchorType && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => updateFilters({ anchorTypes: [primaryAnchorType] })}
+            >
+              Match my anchor type
+            </Button>
+          )}
+        </div>
+        <CheckboxGroup
+          label="Anchor type"
+          options={ANCHOR_TYPES}
+          selected={filters.anchorTypes || []}
+          onChange={anchorTypes => updateFilters({ anchorTypes })}
+        />
+        <CheckboxGroup
+          label="Effectiveness"
+          options={EFFECTIVENESS}
+          selected={filters.effectiveness || []}
+          onChange={effectiveness => updateFilters({ effectiveness })}
+        />
+        <CheckboxGroup
+          label="Tone"
+          options={TONES}
+          selected={filters.tones || []}
+          onChange={tones => updateFilters({ tones })}
+        />
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">Industries</Label>
+          <Input
+            value={industriesText}
+            onChange={(e) => {
+              setIndustriesText(e.target.value);
+              updateFilters({ industries: splitList(e.target.value) });
+            }}
+            placeholder="e.g. market research, influencer marketing"
+          />
+        </div>
+        <p className="text-xs text-gray-600">Leave a group empty to allow every value.</p>
+      </div>
+
+      <div className="space-y-4 pt-4 border-t border-gray-200">
+        <h4 className="text-sm font-semibold text-gray-900">Prefer examples with</h4>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Anchor type</Label>
+            <Select
+              value={boosts.anchorType || NO_PREFERENCE}
+              onValueChange={(anchorType) => updateBoosts({
+                anchorType: anchorType === NO_PREFERENCE ? undefined : anchorType as AnchorType
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PREFERENCE}>No preference</SelectItem>
+                {ANCHOR_TYPES.map(anchorType => (
+                  <SelectItem key={anchorType} value={anchorType}>{anchorType}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Effectiveness</Label>
+            <Select
+              value={boosts.effectiveness || NO_PREFERENCE}
+              onValueChange={(effectiveness) => updateBoosts({
+                effectiveness: effectiveness === NO_PREFERENCE ? undefined : effectiveness as ExampleEffectiveness
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PREFERENCE}>No preference</SelectItem>
+                {EFFECTIVENESS.map(effectiveness => (
+                  <SelectItem key={effectiveness} value={effectiveness} className="capitalize">{effectiveness}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Industry</Label>
+            <Input
+              value={boosts.industry || ''}
+              onChange={(e) => updateBoosts({ industry: e.target.value.trim() ? e.target.value : undefined })}
+              placeholder="e.g. market research"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-600">
+          Preferred examples rank higher but others can still be used. Examples in your selected tone are always preferred.
+        </p>
+      </div>
+    </div>
+  );
+}
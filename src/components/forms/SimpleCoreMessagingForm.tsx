@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -10,16 +10,41 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import type { CoreMessaging } from '@/types';
-import { Plus, Trash2 } from 'lucide-react';
+import { GenerationControls } from '@/components/forms/GenerationControls';
+import { RetrievalControls } from '@/components/forms/RetrievalControls';
+import { DEFAULT_GENERATION_SETTINGS } from '@/data/generationPresets';
+import type { CoreMessaging, GenerationPreset, GenerationSettings, ToneSelector } from '@/types';
+import { Plus, Save, Trash2 } from 'lucide-react';
+
+export interface FormSubmitOptions {
+  bypassCache: boolean;
+}
 
 interface SimpleCoreMessagingFormProps {
-  onSubmit: (data: CoreMessaging) => void;
+  onSubmit: (data: CoreMessaging, options: FormSubmitOptions) => void;
   defaultValues?: Partial<CoreMessaging>;
   isGenerating?: boolean;
+  presets?: GenerationPreset[];
+  onPresetSave?: (name: string, settings: GenerationSettings) => void;
+  onPresetDelete?: (presetId: string) => void;
+}
+
+// Slider positions are rounded, so settings within this distance count as the same preset
+const PRESET_MATCH_TOLERANCE = 0.01;
+
+function matchesPreset(settings: GenerationSettings, preset: GenerationPreset): boolean {
+  return Math.abs(settings.temperature - preset.settings.temperature) <= PRESET_MATCH_TOLERANCE &&
+    Math.abs(settings.top_p - preset.settings.top_p) <= PRESET_MATCH_TOLERANCE;
 }
 
-export function SimpleCoreMessagingForm({ onSubmit, defaultValues, isGenerating = false }: SimpleCoreMessagingFormProps) {
+export function SimpleCoreMessagingForm({
+  onSubmit,
+  defaultValues,
+  isGenerating = false,
+  presets = [],
+  onPresetSave,
+  onPresetDelete,
+}: SimpleCoreMessagingFormProps) {
   const [formData, setFormData] = useState<CoreMessaging>({
     primaryAnchor: {
       type: defaultValues?.primaryAnchor?.type || '',
@@ -34,11 +59,42 @@ export function SimpleCoreMessagingForm({ onSubmit, defaultValues, isGenerating
     icp: defaultValues?.icp || [''],
     thesis: defaultValues?.thesis || [''],
     risks: defaultValues?.risks || [''],
+    tone: defaultValues?.tone || 'professional',
+    generationSettings: defaultValues?.generationSettings || DEFAULT_GENERATION_SETTINGS,
+    retrieval: defaultValues?.retrieval || {},
   });
+  const [bypassCache, setBypassCache] = useState(false);
+  // Remounts the sliders so they pick up an applied preset
+  const [controlsKey, setControlsKey] = useState(0);
+
+  const generationSettings = formData.generationSettings || DEFAULT_GENERATION_SETTINGS;
+  const activePreset = presets.find(preset => matchesPreset(generationSettings, preset));
+
+  // Stable so GenerationControls' effect only fires on slider changes; keeps provider/model overrides
+  const handleSettingsChange = useCallback((settings: GenerationSettings) => {
+    setFormData(prev => ({
+      ...prev,
+      generationSettings: { ...prev.generationSettings, ...settings }
+    }));
+  }, []);
+
+  const applyPreset = (presetId: string) => {
+    const preset = presets.find(candidate => candidate.id === presetId);
+    if (!preset) return;
+
+    handleSettingsChange(preset.settings);
+    setControlsKey(key => key + 1);
+  };
+
+  const savePreset = () => {
+    const name = prompt('Name this preset:')?.trim();
+    if (!name || !onPresetSave) return;
+    onPresetSave(name, { temperature: generationSettings.temperature, top_p: generationSettings.top_p });
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    onSubmit(formData, { bypassCache });
   };
 
   const addThesis = () => {
@@ -172,6 +228,32 @@ export function SimpleCoreMessagingForm({ onSubmit, defaultValues, isGenerating
             </div>
           </div>
 
+          {/* Tone */}
+          <div className="space-y-6 bg-gray-50 p-8 rounded-lg">
+            <h4 className="text-lg font-medium text-gray-900 mb-2">Tone of Voice</h4>
+            <div className="grid grid-cols-2 gap-8">
+              <div className="space-y-4">
+                <Label className="text-sm font-medium text-gray-700">Tone</Label>
+                <Select
+                  value={formData.tone}
+                  onValueChange={(value: ToneSelector) => setFormData(prev => ({ ...prev, tone: value }))}
+                >
+                  <SelectTrigger className="h-12">
+                    <SelectValue placeholder="Select a tone" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="professional">Professional</SelectItem>
+                    <SelectItem value="casual">Casual</SelectItem>
+                    <SelectItem value="technical">Technical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-sm text-gray-600 self-end">
+                Sets the voice of the generated copy and favours examples written in the same tone.
+              </p>
+            </div>
+          </div>
+
           {/* Problem & Differentiator */}
           <div className="grid grid-cols-2 gap-8">
             <div className="space-y-4 bg-gray-50 p-8 rounded-lg">
@@ -276,8 +358,88 @@ export function SimpleCoreMessagingForm({ onSubmit, defaultValues, isGenerating
           </div>
         </div>
 
+        {/* Generation Settings */}
+        <div className="space-y-6">
+          <div className="border-b border-gray-200 pb-6">
+            <h3 className="text-xl font-semibold text-gray-900 mb-2 ml-2">Generation Settings</h3>
+            <p className="text-sm text-gray-600 ml-2">
+              Stored with this version when you generate. Start from a preset or fine-tune the sliders.
+            </p>
+          </div>
+
+          <div className="flex items-end gap-4">
+            <div className="flex-1 space-y-2">
+              <Label className="text-sm font-medium text-gray-700">Preset</Label>
+              <Select value={activePreset?.id || ''} onValueChange={applyPreset}>
+                <SelectTrigger className="h-12">
+                  <SelectValue placeholder="Custom" />
+                </SelectTrigger>
+                <SelectContent>
+                  {presets.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {onPresetSave && !activePreset && (
+              <Button type="button" variant="outline" className="h-12" onClick={savePreset}>
+                <Save className="mr-2 h-4 w-4" />
+                Save as preset
+              </Button>
+            )}
+            {onPresetDelete && activePreset && !activePreset.builtIn && (
+              <Button
+                type="button"
+                variant="outline"
+                className="h-12"
+                onClick={() => onPresetDelete(activePreset.id)}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete preset
+              </Button>
+            )}
+          </div>
+
+          <GenerationControls
+            key={controlsKey}
+            onSettingsChange={handleSettingsChange}
+            initialSettings={generationSettings}
+          />
+        </div>
+
+        {/* Example Retrieval */}
+        <div className="space-y-6">
+          <div className="border-b border-gray-200 pb-6">
+            <h3 className="text-xl font-semibold text-gray-900 mb-2 ml-2">Example Retrieval</h3>
+            <p className="text-sm text-gray-600 ml-2">
+              Choose which library examples the AI learns from for this version.
+            </p>
+          </div>
+
+          <RetrievalControls
+            value={formData.retrieval || {}}
+            onChange={(retrieval) => setFormData(prev => ({ ...prev, retrieval }))}
+            primaryAnchorType={formData.primaryAnchor.type}
+          />
+        </div>
+
         {/* Submit Buttons */}
-        <div className="flex gap-4 pt-8 border-t border-gray-200 mt-8">
+        <div className="flex items-center gap-2 pt-8 border-t border-gray-200 mt-8">
+          <input
+            id="bypass-cache"
+            type="checkbox"
+            className="h-4 w-4"
+            checked={bypassCache}
+            onChange={(e) => setBypassCache(e.target.checked)}
+            disabled={isGenerating}
+          />
+          <Label htmlFor="bypass-cache" className="text-sm font-normal text-gray-600">
+            Bypass cache (always generate fresh copy)
+          </Label>
+        </div>
+        <div className="flex gap-4 pt-4">
           <Button type="submit" className="flex-1 h-12 text-lg" disabled={isGenerating}>
             {isGenerating ? (
               <span className="flex items-center">
@@ -292,7 +454,7 @@ export function SimpleCoreMessagingForm({ onSubmit, defaultValues, isGenerating
             type="button" 
             variant="outline" 
             className="h-12 px-8"
-            onClick={() => setFormData({
+            onClick={() => setFormData(prev => ({
               primaryAnchor: { type: '', content: '' },
               secondaryAnchor: { type: '', content: '' },
               problem: '',
@@ -300,7 +462,11 @@ export function SimpleCoreMessagingForm({ onSubmit, defaultValues, isGenerating
               icp: [''],
               thesis: [''],
               risks: [''],
-            })}
+              tone: 'professional',
+              // Settings are a separate concern from the copy inputs
+              generationSettings: prev.generationSettings,
+              retrieval: prev.retrieval,
+            }))}
           >
             Reset Form
           </Button>
@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  countFacetValues,
+  filterLibrary,
+  LIBRARY_FACETS,
+  type LibraryFacet,
+  type LibraryFacetSelection,
+} from '@/lib/exampleLibrary';
+import type { ExampleChoice, ExampleSearchResult, ExampleSelection, LibraryExample } from '@/types';
+import type { ExampleChoiceKind } from '@/components/forms/ExampleSelectionPanel';
+import { Ban, Pin, Plus, Search, X } from 'lucide-react';
+
+interface ExampleLibraryProps {
+  examples: LibraryExample[];
+  onSearch: (text: string) => Promise<ExampleSearchResult>;
+  // Left out while a generation runs; the button is disabled then
+  onStartVersion?: (example: LibraryExample) => void;
+  onClose: () => void;
+  // The current version's pinned and excluded examples
+  selection?: ExampleSelection;
+  onChoose?: (example: ExampleChoice, kind: ExampleChoiceKind | null) => void;
+}
+
+const SEARCH_MODE_LABELS: Record<ExampleSearchResult['mode'], string> = {
+  semantic: 'by meaning',
+  lexical: 'by keyword (semantic search unavailable)',
+};
+
+function ExampleCard({ example, score, choice, onStartVersion, onChoose }: {
+  example: LibraryExample;
+  score?: number;
+  choice: ExampleChoiceKind | null;
+  onStartVersion?: () => void;
+  onChoose?: (kind: ExampleChoiceKind | null) => void;
+}) {
+  const badges = [example.anchorType, example.industry?.replace(/_/g, ' '), example.structure].filter(Boolean);
+
+  return (
+    <article className="space-y-3 rounded-lg border bg-white p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-gray-900">
+            {example.company}
+            {example.builtIn && <span className="ml-2 text-xs font-normal text-gray-500">built-in</span>}
+          </h3>
+          <p className="text-sm text-gray-700">{example.tagline}</p>
+        </div>
+        {score !== undefined && <span className="text-xs tabular-nums text-gray-500">{score.toFixed(3)}</span>}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {badges.map(badge => (
+          <span key={badge} className="rounded-full bg-gray-100 px-2 py-0.5 text-gray-700">{badge}</span>
+        ))}
+        {example.effectiveness && (
+          <span className={`rounded-full px-2 py-0.5 ${example.effectiveness === 'high' ? 'bg-green-50 text-green-800' : 'bg-amber-50 text-amber-800'}`}>
+            {example.effectiveness} effectiveness
+          </span>
+        )}
+      </div>
+
+      <dl className="grid grid-cols-[6rem_1fr] gap-y-1 text-xs">
+        {example.primaryAnchor && (
+          <>
+            <dt className="text-gray-500">Anchor</dt>
+            <dd>{example.primaryAnchor}</dd>
+          </>
+        )}
+        {example.icp.length > 0 && (
+          <>
+            <dt className="text-gray-500">ICP</dt>
+            <dd>{example.icp.join(', ')}</dd>
+          </>
+        )}
+        {example.valueProps.length > 0 && (
+          <>
+            <dt className="text-gray-500">Value props</dt>
+            <dd>
+              <ul className="list-disc space-y-0.5 pl-4">
+                {example.valueProps.map((valueProp, index) => <li key={index}>{valueProp}</li>)}
+              </ul>
+            </dd>
+          </>
+        )}
+      </dl>
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" size="sm" onClick={onStartVersion} disabled={!onStartVersion}>
+          <Plus className="mr-2 h-4 w-4" />
+          Start a version from this example
+        </Button>
+        {onChoose && !example.builtIn && (
+          <>
+            <Button type="button" size="sm" variant="outline" onClick={() => onChoose(choice === 'pinned' ? null : 'pinned')}>
+              <Pin className="mr-2 h-4 w-4" />
+              {choice === 'pinned' ? 'Unpin' : 'Pin'}
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => onChoose(choice === 'excluded' ? null : 'excluded')}>
+              <Ban className="mr-2 h-4 w-4" />
+              {choice === 'excluded' ? 'Include' : 'Exclude'}
+            </Button>
+          </>
+        )}
+      </div>
+    </article>
+  );
+}
+
+// Browsable example library: faceted filters, semantic search and a starting point for new versions
+export function ExampleLibrary({ examples, onSearch, onStartVersion, onClose, selection, onChoose }: ExampleLibraryProps) {
+  const [facets, setFacets] = useState<LibraryFacetSelection>({});
+  const [query, setQuery] = useState('');
+  const [searchResult, setSearchResult] = useState<ExampleSearchResult | null>(null);
+  const [searchedQuery, setSearchedQuery] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Search hits in rank order, or every example alphabetically; then narrowed by the facets
+  const visible = useMemo(() => {
+    const scores = new Map(searchResult?.matches.map(match => [match.id, match.score]));
+    const ranked = searchResult
+      ? searchResult.matches.flatMap(match => examples.filter(example => example.id === match.id))
+      : examples;
+    return filterLibrary(ranked, facets).map(example => ({ example, score: scores.get(example.id) }));
+  }, [examples, facets, searchResult]);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) {
+      setSearchResult(null);
+      return;
+    }
+
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      setSearchResult(await onSearch(query.trim()));
+      setSearchedQuery(query.trim());
+    } catch (error) {
+      console.error('Library search failed:', error);
+      setSearchError('Search failed. Please try again.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const clearSearch = () => {
+    setQuery('');
+    setSearchResult(null);
+    setSearchError(null);
+  };
+
+  const toggleFacet = (facet: LibraryFacet, value: string) => {
+    const selected = facets[facet] || [];
+    setFacets({
+      ...facets,
+      [facet]: selected.includes(value) ? selected.filter(item => item !== value) : [...selected, value],
+    });
+  };
+
+  const choiceFor = (id: number): ExampleChoiceKind | null =>
+    selection?.pinned.some(choice => choice.id === id) ? 'pinned'
+      : selection?.excluded.some(choice => choice.id === id) ? 'excluded'
+        : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+      <aside className="relative flex h-full w-full max-w-5xl flex-col bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b px-6 py-4">
+          <h2 className="text-lg font-semibold">Example Library ({examples.length})</h2>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close library">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <form onSubmit={handleSearch} className="flex gap-2 border-b px-6 py-4">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Describe what you are looking for, e.g. faster research for B2B founders"
+            className="flex-1"
+          />
+          <Button type="submit" disabled={isSearching}>
+            <Search className="mr-2 h-4 w-4" />
+            {isSearching ? 'Searching...' : 'Search'}
+          </Button>
+          {searchResult && (
+            <Button type="button" variant="outline" onClick={clearSearch}>Clear</Button>
+          )}
+        </form>
+
+        <div className="flex min-h-0 flex-1">
+          <nav className="w-56 flex-shrink-0 space-y-6 overflow-y-auto border-r p-6">
+            {LIBRARY_FACETS.map(({ facet, label }) => (
+              <div key={facet} className="space-y-2">
+                <h3 className="text-sm font-semibold text-gray-800">{label}</h3>
+                {countFacetValues(examples, facet).map(({ value, count }) => (
+                  <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      checked={(facets[facet] || []).includes(value)}
+                      onChange={() => toggleFacet(facet, value)}
+                    />
+                    <span className="flex-1 capitalize">{value}</span>
+                    <span className="text-xs text-gray-500">{count}</span>
+                  </label>
+                ))}
+              </div>
+            ))}
+          </nav>
+
+          <div className="flex-1 space-y-4 overflow-y-auto p-6">
+            {searchError && (
+              <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">{searchError}</div>
+            )}
+            <p className="text-xs text-gray-500">
+              {searchResult
+                ? `${visible.length} match${visible.length === 1 ? '' : 'es'} for “${searchedQuery}”, ranked ${SEARCH_MODE_LABELS[searchResult.mode]}`
+                : `${visible.length} of ${examples.length} examples`}
+            </p>
+            {examples.length === 0 ? (
+              <p className="text-sm text-gray-500">The example library could not be loaded.</p>
+            ) : (
+              visible.map(({ example, score }) => (
+                <ExampleCard
+                  key={example.id}
+                  example={example}
+                  score={score}
+                  choice={choiceFor(example.id)}
+                  onStartVersion={onStartVersion && (() => onStartVersion(example))}
+                  onChoose={onChoose && (kind => onChoose({ id: example.id, company: example.company }, kind))}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import type { GenerationPreset, GenerationSettings } from '@/types';
+
+// Used when neither the version nor a preset sets anything
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = { temperature: 0.3, top_p: 0.8 };
+
+export const BUILT_IN_GENERATION_PRESETS: GenerationPreset[] = [
+  {
+    id: 'balanced',
+    name: 'Balanced',
+    settings: DEFAULT_GENERATION_SETTINGS,
+    builtIn: true,
+  },
+  {
+    id: 'board-deck',
+    name: 'Board deck',
+    settings: { temperature: 0.15, top_p: 0.6 },
+    builtIn: true,
+  },
+  {
+    id: 'ad-copy-exploration',
+    name: 'Ad copy exploration',
+    settings: { temperature: 0.8, top_p: 0.95 },
+    builtIn: true,
+  },
+];
@@ -0,0 +1,270 @@
+import { STRUCTURED_OUTPUT_INSTRUCTIONS, STRUCTURED_VARIANTS_INSTRUCTIONS } from '@/lib/structuredOutput';
+import { BANNED_PHRASES } from '@/lib/variantRanking';
+
+export interface PromptTemplate {
+  id: string;
+  version: number; // Bump on ANY wording change; the cache key also covers the template text, shared parts included
+  description: string;
+  variables: string[];
+  template: string;
+}
+
+// Named, versioned prompt templates. Keep superseded versions here so results can be traced back.
+export const promptTemplates: PromptTemplate[] = [
+  {
+    id: 'rag-positioning',
+    version: 1,
+    description: 'SimpleRAG positioning copy from vector-retrieved examples',
+    variables: [
+      'context',
+      'primaryAnchor',
+      'primaryAnchorType',
+      'secondaryAnchor',
+      'secondaryAnchorType',
+      'icpLine',
+      'icpList',
+      'problem',
+      'differentiator',
+      'problemExcerpt',
+      'differentiatorExcerpt',
+    ],
+    template: `Based on these successful positioning examples:
+
+{{context}}
+
+Create positioning for:
+Primary Anchor: {{primaryAnchor}} ({{primaryAnchorType}})
+Secondary Anchor: {{secondaryAnchor}} ({{secondaryAnchorType}})
+{{icpLine}}Problem: {{problem}}
+Differentiator: {{differentiator}}
+
+POSITIONING RULES - CRITICAL:
+- HEADLINE must include BOTH anchors: "{{primaryAnchor}}" for "{{secondaryAnchor}} {{icpList}}"
+- Do NOT add extra details like employee counts or company sizes - keep it natural
+- SUBHEADLINE must be concise (1-2 sentences max) combining problem + solution
+- Keep the core meaning from: "{{problemExcerpt}}..." 
+- And solution: "{{differentiatorExcerpt}}..."
+- CRITICAL: Ensure smooth logical flow between problem and solution
+- Use proper transitions: "While X happens, Y solves it" OR "X creates problems. Y provides the solution" 
+- Avoid awkward "but" connections that don't flow logically
+- Make it flow naturally but KEEP IT CONCISE - avoid long explanations
+- NO generic positioning language: avoid "say goodbye", "transform", "unlock", etc.
+- Focus on specific, concrete benefits
+
+Generate professional positioning copy:
+- headline: [primary anchor] for [secondary anchor] [ICP target] (natural phrasing, no extra details)
+- subheadline: [concise problem + solution in 1-2 sentences]
+- opportunity: [market opportunity statement referencing specific segments]
+
+${STRUCTURED_OUTPUT_INSTRUCTIONS}`,
+  },
+  {
+    id: 'rag-positioning',
+    version: 2,
+    description: 'SimpleRAG positioning copy as several ranked variants',
+    variables: [
+      'context',
+      'primaryAnchor',
+      'primaryAnchorType',
+      'secondaryAnchor',
+      'secondaryAnchorType',
+      'icpLine',
+      'icpList',
+      'problem',
+      'differentiator',
+      'problemExcerpt',
+      'differentiatorExcerpt',
+      'variantCount',
+    ],
+    template: `Based on these successful positioning examples:
+
+{{context}}
+
+Create positioning for:
+Primary Anchor: {{primaryAnchor}} ({{primaryAnchorType}})
+Secondary Anchor: {{secondaryAnchor}} ({{secondaryAnchorType}})
+{{icpLine}}Problem: {{problem}}
+Differentiator: {{differentiator}}
+
+POSITIONING RULES - CRITICAL:
+- HEADLINE must include BOTH anchors: "{{primaryAnchor}}" for "{{secondaryAnchor}} {{icpList}}"
+- Do NOT add extra details like employee counts or company sizes - keep it natural
+- SUBHEADLINE must be concise (1-2 sentences max) combining problem + solution
+- Keep the core meaning from: "{{problemExcerpt}}..." 
+- And solution: "{{differentiatorExcerpt}}..."
+- CRITICAL: Ensure smooth logical flow between problem and solution
+- Use proper transitions: "While X happens, Y solves it" OR "X creates problems. Y provides the solution" 
+- Avoid awkward "but" connections that don't flow logically
+- Make it flow naturally but KEEP IT CONCISE - avoid long explanations
+- NO generic positioning language: never use ${BANNED_PHRASES.map(phrase => `"${phrase}"`).join(', ')}
+- Focus on specific, concrete benefits
+
+Generate professional positioning copy:
+- headline: [primary anchor] for [secondary anchor] [ICP target] (natural phrasing, no extra details)
+- subheadline: [concise problem + solution in 1-2 sentences]
+- opportunity: [market opportunity statement referencing specific segments]
+
+${STRUCTURED_VARIANTS_INSTRUCTIONS}`,
+  },
+  {
+    id: 'rag-positioning',
+    version: 3,
+    description: 'Ranked variants that keep user-locked sections fixed',
+    variables: [
+      'context',
+      'primaryAnchor',
+      'primaryAnchorType',
+      'secondaryAnchor',
+      'secondaryAnchorType',
+      'icpLine',
+      'icpList',
+      'problem',
+      'differentiator',
+      'problemExcerpt',
+      'differentiatorExcerpt',
+      'variantCount',
+      'lockedContext',
+    ],
+    template: `Based on these successful positioning examples:
+
+{{context}}
+
+Create positioning for:
+Primary Anchor: {{primaryAnchor}} ({{primaryAnchorType}})
+Secondary Anchor: {{secondaryAnchor}} ({{secondaryAnchorType}})
+{{icpLine}}Problem: {{problem}}
+Differentiator: {{differentiator}}
+
+POSITIONING RULES - CRITICAL:
+- HEADLINE must include BOTH anchors: "{{primaryAnchor}}" for "{{secondaryAnchor}} {{icpList}}"
+- Do NOT add extra details like employee counts or company sizes - keep it natural
+- SUBHEADLINE must be concise (1-2 sentences max) combining problem + solution
+- Keep the core meaning from: "{{problemExcerpt}}..." 
+- And solution: "{{differentiatorExcerpt}}..."
+- CRITICAL: Ensure smooth logical flow between problem and solution
+- Use proper transitions: "While X happens, Y solves it" OR "X creates problems. Y provides the solution" 
+- Avoid awkward "but" connections that don't flow logically
+- Make it flow naturally but KEEP IT CONCISE - avoid long explanations
+- NO generic positioning language: never use ${BANNED_PHRASES.map(phrase => `"${phrase}"`).join(', ')}
+- Focus on specific, concrete benefits
+
+{{lockedContext}}Generate professional positioning copy:
+- headline: [primary anchor] for [secondary anchor] [ICP target] (natural phrasing, no extra details)
+- subheadline: [concise problem + solution in 1-2 sentences]
+- opportunity: [market opportunity statement referencing specific segments]
+
+${STRUCTURED_VARIANTS_INSTRUCTIONS}`,
+  },
+  {
+    id: 'rag-positioning',
+    version: 4,
+    description: 'Ranked variants in the requested tone, keeping user-locked sections fixed',
+    variables: [
+      'context',
+      'primaryAnchor',
+      'primaryAnchorType',
+      'secondaryAnchor',
+      'secondaryAnchorType',
+      'icpLine',
+      'icpList',
+      'problem',
+      'differentiator',
+      'problemExcerpt',
+      'differentiatorExcerpt',
+      'variantCount',
+      'lockedContext',
+      'tone',
+      'toneGuidance',
+    ],
+    template: `Based on these successful positioning examples:
+
+{{context}}
+
+Create positioning for:
+Primary Anchor: {{primaryAnchor}} ({{primaryAnchorType}})
+Secondary Anchor: {{secondaryAnchor}} ({{secondaryAnchorType}})
+{{icpLine}}Problem: {{problem}}
+Differentiator: {{differentiator}}
+
+POSITIONING RULES - CRITICAL:
+- HEADLINE must include BOTH anchors: "{{primaryAnchor}}" for "{{secondaryAnchor}} {{icpList}}"
+- Do NOT add extra details like employee counts or company sizes - keep it natural
+- SUBHEADLINE must be concise (1-2 sentences max) combining problem + solution
+- Keep the core meaning from: "{{problemExcerpt}}..." 
+- And solution: "{{differentiatorExcerpt}}..."
+- CRITICAL: Ensure smooth logical flow between problem and solution
+- Use proper transitions: "While X happens, Y solves it" OR "X creates problems. Y provides the solution" 
+- Avoid awkward "but" connections that don't flow logically
+- Make it flow naturally but KEEP IT CONCISE - avoid long explanations
+- NO generic positioning language: never use ${BANNED_PHRASES.map(phrase => `"${phrase}"`).join(', ')}
+- Focus on specific, concrete benefits
+- TONE ({{tone}}): {{toneGuidance}}
+
+{{lockedContext}}Generate {{tone}} positioning copy:
+- headline: [primary anchor] for [secondary anchor] [ICP target] (natural phrasing, no extra details)
+- subheadline: [concise problem + solution in 1-2 sentences]
+- opportunity: [market opportunity statement referencing specific segments]
+
+${STRUCTURED_VARIANTS_INSTRUCTIONS}`,
+  },
+  {
+    id: 'rag-refinement',
+    version: 1,
+    description: 'Follow-up turn revising the previous answer from a natural-language instruction',
+    variables: ['instruction', 'primaryAnchor', 'lockedContext'],
+    template: `Revise the positioning copy from your last answer.
+
+Instruction: {{instruction}}
+
+Keep every rule from the original request:
+- HEADLINE must still include the primary anchor "{{primaryAnchor}}"
+- SUBHEADLINE stays concise (1-2 sentences max)
+- NO generic positioning language: never use ${BANNED_PHRASES.map(phrase => `"${phrase}"`).join(', ')}
+- Change only what the instruction asks for; keep everything else as close to your last answer as possible
+
+{{lockedContext}}${STRUCTURED_OUTPUT_INSTRUCTIONS}`,
+  },
+  {
+    id: 'graph-positioning',
+    version: 1,
+    description: 'GraphRAG light-edit positioning from knowledge-graph context',
+    variables: [
+      'context',
+      'primaryAnchor',
+      'primaryAnchorType',
+      'secondaryAnchor',
+      'secondaryAnchorType',
+      'icpLine',
+      'problem',
+      'differentiator',
+      'problemExcerpt',
+      'differentiatorExcerpt',
+    ],
+    template: `Based on these successful positioning examples:
+
+{{context}}
+
+Create positioning for:
+Primary Anchor: {{primaryAnchor}} ({{primaryAnchorType}})
+Secondary Anchor: {{secondaryAnchor}} ({{secondaryAnchorType}})
+{{icpLine}}Problem: {{problem}}
+Differentiator: {{differentiator}}
+
+POSITIONING RULES - CRITICAL:
+- DO NOT REWRITE - only lightly edit for grammar and flow
+- HEADLINE must include EXACT primary anchor text: "{{primaryAnchor}}"
+- SUBHEADLINE must combine the actual problem and differentiator text with minimal changes
+- Use the user's EXACT phrases from problem: "{{problemExcerpt}}..."
+- Use the user's EXACT phrases from differentiator: "{{differentiatorExcerpt}}..."
+- ONLY add connecting words, fix tense, improve grammar - do NOT add new concepts
+- NO generic positioning language: avoid "say goodbye", "transform", "unlock", etc.
+- Just make the user's content flow better grammatically
+
+Generate professional positioning copy:
+- headline: [specific headline using primary anchor + ICP]
+- subheadline: [capture problem + differentiator in 1-2 sentences]
+- opportunity: [market opportunity statement referencing specific segments]
+
+${STRUCTURED_OUTPUT_INSTRUCTIONS}`,
+  },
+];
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { CoreMessaging } from '@/types';
+import { buildGenerationCacheKeyMaterial, canonicalSerialize, type GenerationCacheKeyInput } from '@/lib/cacheKey';
+
+const coreMessaging: CoreMessaging = {
+  primaryAnchor: { type: 'Product Category', content: 'Customer data platform' },
+  secondaryAnchor: { type: 'Company Type', content: 'Mid-market retailers' },
+  problem: 'Customer data is scattered across tools',
+  differentiator: 'Unifies profiles in real time',
+  icp: ['Retail marketing teams', ''],
+  thesis: ['Real-time beats batch'],
+  risks: [''],
+  tone: 'professional'
+};
+
+const input: GenerationCacheKeyInput = {
+  coreMessaging,
+  settings: { temperature: 0.3, top_p: 0.8 },
+  provider: 'mock',
+  model: 'mock-completion',
+  prompt: { id: 'positioning-rag', version: 4 },
+  promptTemplate: 'Create positioning for: {{anchor}}',
+  variantCount: 3
+};
+
+const keyFor = (overrides: Partial<GenerationCacheKeyInput>) => buildGenerationCacheKeyMaterial({ ...input, ...overrides });
+
+describe('canonicalSerialize', () => {
+  it('sorts keys at every level and drops undefined values', () => {
+    expect(canonicalSerialize({ b: 1, a: { d: undefined, c: [2, { f: 1, e: 0 }] } }))
+      .toBe('{"a":{"c":[2,{"e":0,"f":1}]},"b":1}');
+  });
+});
+
+describe('buildGenerationCacheKeyMaterial', () => {
+  it('is stable across key order, whitespace, placeholder rows and float noise', () => {
+    const reordered: CoreMessaging = {
+      tone: 'professional',
+      risks: [],
+      thesis: ['  Real-time   beats batch '],
+      icp: ['Retail marketing teams'],
+      differentiator: 'Unifies profiles in real time',
+      problem: 'Customer data is scattered across tools',
+      secondaryAnchor: { content: 'Mid-market retailers', type: 'Company Type' },
+      primaryAnchor: { content: 'Customer data platform ', type: 'Product Category' }
+    };
+
+    expect(keyFor({ coreMessaging: reordered, settings: { top_p: 0.8, temperature: 0.1 + 0.2 } }))
+      .toBe(buildGenerationCacheKeyMaterial(input));
+  });
+
+  it('changes with the prompt template text even at the same version', () => {
+    expect(keyFor({ promptTemplate: 'Create positioning for: {{anchor}}\nAvoid: synergy' }))
+      .not.toBe(buildGenerationCacheKeyMaterial(input));
+  });
+
+  it('changes with locked sections', () => {
+    expect(keyFor({ lockedSections: { headline: 'The real-time CDP' } })).not.toBe(buildGenerationCacheKeyMaterial(input));
+    expect(keyFor({ lockedSections: { headline: 'The real-time CDP' } }))
+      .not.toBe(keyFor({ lockedSections: { subheadline: 'The real-time CDP' } }));
+  });
+
+  it('changes with pinned and excluded examples, whatever their order', () => {
+    const pinned = keyFor({ exampleSelection: { pinned: [3, 1], excluded: [] } });
+    expect(pinned).not.toBe(buildGenerationCacheKeyMaterial(input));
+    expect(pinned).not.toBe(keyFor({ exampleSelection: { pinned: [], excluded: [1, 3] } }));
+    expect(pinned).toBe(keyFor({ exampleSelection: { pinned: [1, 3, 3], excluded: [] } }));
+  });
+
+  it('treats an empty example selection like none', () => {
+    expect(keyFor({ exampleSelection: { pinned: [], excluded: [] } })).toBe(buildGenerationCacheKeyMaterial(input));
+  });
+});
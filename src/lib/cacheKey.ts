@@ -0,0 +1,130 @@
+import type { CoreMessaging, GenerationSettings, LockedSections, PromptRef, RetrievalSettings } from '@/types';
+import { normalizeIndustry } from '@/lib/hybridRetrieval';
+
+// Bump when the key material below changes shape so old entries are never matched
+export const CACHE_KEY_SCHEMA_VERSION = 3;
+
+export interface GenerationCacheKeyInput {
+  coreMessaging: CoreMessaging;
+  settings: GenerationSettings;
+  provider: string;
+  model: string;
+  prompt: PromptRef;
+  // Template text with the shared instructions and banned phrases it pulls in from other modules filled in,
+  // so editing those changes the key even when nobody bumps the template version
+  promptTemplate: string;
+  variantCount: number;
+  lockedSections?: LockedSections;
+  exampleSelection?: { pinned: number[]; excluded: number[] };
+}
+
+// Collapse whitespace; case is kept because anchors are copied verbatim into headlines
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Form arrays carry empty placeholder rows; order is kept because it reaches the prompt
+function normalizeList(items: string[] | undefined): string[] {
+  return (items || []).map(normalizeText).filter(Boolean);
+}
+
+// Sliders move in 0.05 steps; rounding absorbs float noise like 0.30000000000000004
+function normalizeNumber(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Filter lists are sets, so order and duplicates do not matter
+function normalizeSet(items: string[] | undefined): string[] | undefined {
+  return items && items.length > 0 ? [...new Set(items)].sort() : undefined;
+}
+
+function normalizeIds(ids: number[] | undefined): number[] | undefined {
+  return ids && ids.length > 0 ? [...new Set(ids)].sort((a, b) => a - b) : undefined;
+}
+
+// Undefined when nothing is set, so keys from before retrieval settings existed still match
+function withoutEmpty<T extends object>(value: T): T | undefined {
+  return Object.values(value).some(entry => entry !== undefined) ? value : undefined;
+}
+
+function normalizeRetrieval(retrieval: RetrievalSettings = {}) {
+  const { filters = {}, boosts = {} } = retrieval;
+
+  return withoutEmpty({
+    filters: withoutEmpty({
+      anchorTypes: normalizeSet(filters.anchorTypes),
+      industries: normalizeSet(filters.industries?.map(normalizeIndustry).filter(Boolean)),
+      effectiveness: normalizeSet(filters.effectiveness),
+      tones: normalizeSet(filters.tones),
+    }),
+    boosts: withoutEmpty({
+      anchorType: boosts.anchorType,
+      industry: boosts.industry ? normalizeIndustry(boosts.industry) || undefined : undefined,
+      effectiveness: boosts.effectiveness,
+      tone: boosts.tone,
+    }),
+    exampleCount: retrieval.exampleCount,
+    diversity: retrieval.diversity === undefined ? undefined : normalizeNumber(retrieval.diversity),
+  });
+}
+
+// Deterministic JSON: object keys sorted at every level, undefined values dropped
+export function canonicalSerialize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalSerialize).join(',')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entryValue]) => entryValue !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${canonicalSerialize(entryValue)}`).join(',')}}`;
+}
+
+// Everything that can change the generated output, normalized. Hash the serialized form for the key.
+export function buildGenerationCacheKeyMaterial(input: GenerationCacheKeyInput): string {
+  const { coreMessaging, settings, provider, model, prompt, promptTemplate, variantCount, lockedSections = {}, exampleSelection } = input;
+
+  return canonicalSerialize({
+    schema: CACHE_KEY_SCHEMA_VERSION,
+    coreMessaging: {
+      primaryAnchor: {
+        type: coreMessaging.primaryAnchor.type,
+        content: normalizeText(coreMessaging.primaryAnchor.content),
+      },
+      secondaryAnchor: {
+        type: coreMessaging.secondaryAnchor.type,
+        content: normalizeText(coreMessaging.secondaryAnchor.content),
+      },
+      problem: normalizeText(coreMessaging.problem),
+      differentiator: normalizeText(coreMessaging.differentiator),
+      icp: normalizeList(coreMessaging.icp),
+      // Thesis and risks are copied into the result, so they are part of it
+      thesis: normalizeList(coreMessaging.thesis),
+      risks: normalizeList(coreMessaging.risks),
+      tone: coreMessaging.tone || 'professional',
+      retrieval: normalizeRetrieval(coreMessaging.retrieval),
+    },
+    settings: {
+      temperature: normalizeNumber(settings.temperature),
+      top_p: normalizeNumber(settings.top_p),
+    },
+    provider,
+    model,
+    prompt: { id: prompt.id, version: prompt.version, template: promptTemplate },
+    variantCount,
+    lockedSections: {
+      headline: lockedSections.headline && normalizeText(lockedSections.headline),
+      subheadline: lockedSections.subheadline && normalizeText(lockedSections.subheadline),
+      opportunity: lockedSections.opportunity && normalizeText(lockedSections.opportunity),
+    },
+    exampleSelection: withoutEmpty({
+      pinned: normalizeIds(exampleSelection?.pinned),
+      excluded: normalizeIds(exampleSelection?.excluded),
+    }),
+  });
+}
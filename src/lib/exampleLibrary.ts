@@ -0,0 +1,64 @@
+import type { AnchorType, CoreMessaging, LibraryExample, ToneSelector } from '@/types';
+import { normalizeIndustry } from '@/lib/hybridRetrieval';
+
+// Facet filtering for the example library and turning an example into a starting point for a version
+
+export type LibraryFacet = 'anchorType' | 'industry' | 'effectiveness' | 'structure';
+
+// Selected values per facet; a missing or empty list allows every value
+export type LibraryFacetSelection = Partial<Record<LibraryFacet, string[]>>;
+
+export const LIBRARY_FACETS: Array<{ facet: LibraryFacet; label: string }> = [
+  { facet: 'anchorType', label: 'Anchor type' },
+  { facet: 'industry', label: 'Industry' },
+  { facet: 'effectiveness', label: 'Effectiveness' },
+  { facet: 'structure', label: 'Structure' },
+];
+
+const ANCHOR_TYPES: AnchorType[] = ['Product Category', 'Use Case', 'Competitive Alternative'];
+const TONES: ToneSelector[] = ['professional', 'casual', 'technical'];
+
+// Display value of a facet; industries are stored both as "market research" and "influencer_marketing"
+export function facetValue(example: LibraryExample, facet: LibraryFacet): string {
+  if (facet === 'industry') return normalizeIndustry(example.industry || '').replace(/_/g, ' ');
+  return (example[facet] || '').trim();
+}
+
+export function filterLibrary(examples: LibraryExample[], selection: LibraryFacetSelection): LibraryExample[] {
+  return examples.filter(example =>
+    LIBRARY_FACETS.every(({ facet }) => {
+      const allowed = selection[facet];
+      return !allowed || allowed.length === 0 || allowed.includes(facetValue(example, facet));
+    })
+  );
+}
+
+// Values of one facet with how many examples have each, most common first
+export function countFacetValues(examples: LibraryExample[], facet: LibraryFacet): Array<{ value: string; count: number }> {
+  const counts = new Map<string, number>();
+  examples.forEach(example => {
+    const value = facetValue(example, facet);
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+// Form inputs pre-filled from an example. Value props become thesis points; risks are left for the user.
+export function coreMessagingFromExample(example: LibraryExample): CoreMessaging {
+  const anchorType = ANCHOR_TYPES.find(type => type === example.anchorType);
+  const tone = TONES.find(value => value === example.tone?.toLowerCase());
+  const nonEmpty = (items: string[]) => (items.length > 0 ? [...items] : ['']);
+
+  return {
+    primaryAnchor: { type: anchorType || '', content: example.primaryAnchor || '' },
+    secondaryAnchor: { type: '', content: '' },
+    problem: example.problem || '',
+    differentiator: example.differentiator || '',
+    icp: nonEmpty(example.icp),
+    thesis: nonEmpty(example.valueProps),
+    risks: [''],
+    ...(tone && { tone }),
+  };
+}
@@ -0,0 +1,229 @@
+import type { CoreMessaging, GeneratedCopy, HighlightCheck } from '@/types';
+
+// Canvas highlight colors for each input the copy draws on
+export const HIGHLIGHT_COLORS = {
+  primaryAnchor: '#fef3c7', // yellow
+  secondaryAnchor: '#dbeafe', // blue
+  problem: '#fecaca', // red
+  differentiator: '#dcfce7', // green
+  value: '#f3e8ff', // purple
+};
+
+export interface Highlight {
+  text: string;
+  color: string;
+}
+
+export interface HighlightPhrase extends Highlight {
+  type: string;
+}
+
+function identifyGeneratedPhrases(generatedText: string, coreMessaging: CoreMessaging): HighlightPhrase[] {
+  const phrases: HighlightPhrase[] = [];
+  
+  // More precise approach: split by headline vs subheadline
+  // Assume the text format is: "HEADLINE: ... SUBHEADLINE: ..." 
+  // OR just "Headline text Subheadline text" where headline contains anchors
+  
+  let subheadlineText = generatedText;
+  
+  // If we have both anchors, find where they end and start from there
+  if (coreMessaging.primaryAnchor.content && coreMessaging.secondaryAnchor.content) {
+    const secondaryAnchor = coreMessaging.secondaryAnchor.content;
+    
+    // Find the last occurrence of the secondary anchor (headline should end after this)
+    const secondaryIndex = generatedText.toLowerCase().lastIndexOf(secondaryAnchor.toLowerCase());
+    if (secondaryIndex !== -1) {
+      // Start analyzing after the secondary anchor + some buffer
+      const headlineEnd = secondaryIndex + secondaryAnchor.length;
+      subheadlineText = generatedText.substring(headlineEnd).trim();
+    }
+  }
+  
+  // Split subheadline into logical sections (split on commas and conjunctions too)
+  const sentences = subheadlineText.split(/[.!?]+|,\s*but\s+|,\s*however\s+|,\s*and\s+our\s+/).filter(s => s.trim());
+  
+  // Key problem indicators (words that suggest this part is about the problem)
+  const problemIndicators = [
+    'lack', 'no', 'without', 'difficult', 'challenge', 'issue', 'problem', 'struggle', 
+    'fail', 'unable', 'can\'t', 'don\'t', 'until', 'before', 'complain', 'frustrated',
+    'slow', 'manual', 'inefficient', 'time-consuming', 'expensive', 'costly'
+  ];
+  
+  // Key solution indicators (words that suggest this part is about the solution)
+  const solutionIndicators = [
+    'predicts', 'provides', 'enables', 'allows', 'helps', 'gives', 'offers', 'delivers',
+    'our platform', 'our solution', 'we', 'automatically', 'proactive', 'advance',
+    'real-time', 'instant', 'fast', 'efficient', 'easy', 'simple', 'automated'
+  ];
+  
+  sentences.forEach(sentence => {
+    const lowerSentence = sentence.toLowerCase();
+    
+    // Count problem vs solution indicators
+    const problemScore = problemIndicators.reduce((score, indicator) => 
+      score + (lowerSentence.includes(indicator) ? 1 : 0), 0
+    );
+    
+    const solutionScore = solutionIndicators.reduce((score, indicator) => 
+      score + (lowerSentence.includes(indicator) ? 1 : 0), 0
+    );
+    
+    // Classify the sentence and break it into meaningful chunks
+    if (problemScore > solutionScore && problemScore > 0) {
+      // This sentence is about the problem
+      const chunks = breakIntoChunks(sentence.trim(), 4, 8);
+      chunks.forEach(chunk => {
+        phrases.push({
+          text: chunk,
+          color: HIGHLIGHT_COLORS.problem,
+          type: 'Generated Problem Section'
+        });
+      });
+    } else if (solutionScore > 0) {
+      // This sentence is about the solution
+      const chunks = breakIntoChunks(sentence.trim(), 4, 8);
+      chunks.forEach(chunk => {
+        phrases.push({
+          text: chunk,
+          color: HIGHLIGHT_COLORS.differentiator,
+          type: 'Generated Solution Section'
+        });
+      });
+    }
+  });
+  
+  return phrases;
+}
+
+// Break text into meaningful chunks of specified word length
+function breakIntoChunks(text: string, minWords: number, maxWords: number): string[] {
+  const words = text.split(' ').filter(w => w.length > 0);
+  const chunks: string[] = [];
+  
+  // Create overlapping chunks
+  for (let i = 0; i <= words.length - minWords; i++) {
+    const chunkLength = Math.min(maxWords, words.length - i);
+    if (chunkLength >= minWords) {
+      const chunk = words.slice(i, i + chunkLength).join(' ');
+      chunks.push(chunk);
+    }
+  }
+  
+  // Also add the full sentence if it's not too long
+  if (words.length <= maxWords) {
+    chunks.push(text);
+  }
+  
+  return [...new Set(chunks)]; // Remove duplicates
+}
+
+// Merge overlapping phrases of the same color to create continuous highlights
+function mergeOverlappingPhrases(phrases: HighlightPhrase[], fullText: string): HighlightPhrase[] {
+  if (phrases.length === 0) return [];
+  
+  // Group phrases by color
+  const phrasesGroupedByColor = phrases.reduce((groups, phrase) => {
+    if (!groups[phrase.color]) {
+      groups[phrase.color] = [];
+    }
+    groups[phrase.color].push(phrase);
+    return groups;
+  }, {} as Record<string, HighlightPhrase[]>);
+  
+  const mergedPhrases: HighlightPhrase[] = [];
+  
+  // Process each color group separately
+  Object.entries(phrasesGroupedByColor).forEach(([color, colorPhrases]) => {
+    // Find the positions of each phrase in the full text
+    const phrasePositions = colorPhrases.map(phrase => {
+      const index = fullText.toLowerCase().indexOf(phrase.text.toLowerCase());
+      return {
+        ...phrase,
+        start: index,
+        end: index + phrase.text.length
+      };
+    }).filter(p => p.start !== -1) // Only keep phrases that are actually found
+    .sort((a, b) => a.start - b.start); // Sort by position
+    
+    if (phrasePositions.length === 0) return;
+    
+    // Merge overlapping or adjacent phrases
+    const merged = [];
+    let currentMerged = phrasePositions[0];
+    
+    for (let i = 1; i < phrasePositions.length; i++) {
+      const current = phrasePositions[i];
+      
+      // If phrases overlap or are adjacent (allowing small gaps of 1-2 characters)
+      if (current.start <= currentMerged.end + 2) {
+        // Extend the current merged phrase
+        currentMerged.end = Math.max(currentMerged.end, current.end);
+      } else {
+        // No overlap, finalize current and start new one
+        merged.push(currentMerged);
+        currentMerged = current;
+      }
+    }
+    
+    // Don't forget the last phrase
+    merged.push(currentMerged);
+    
+    // Extract the merged text from the full text
+    merged.forEach(mergedPhrase => {
+      const mergedText = fullText.substring(mergedPhrase.start, mergedPhrase.end);
+      mergedPhrases.push({
+        text: mergedText,
+        color: color,
+        type: mergedPhrase.type
+      });
+    });
+  });
+  
+  return mergedPhrases;
+}
+
+// Everything the canvas highlights in a piece of generated text: anchors and ICP verbatim,
+// plus the problem/solution phrases detected in the copy itself
+export function buildHighlights(coreMessaging: CoreMessaging, generatedText?: string): Highlight[] {
+  return collectHighlightPhrases(coreMessaging, generatedText)
+    .map(({ text, color }) => ({ text, color }))
+    .filter(highlight => highlight.text && highlight.text.trim());
+}
+
+// Check each expected highlight against the headline and subheadline, e.g. to spot an anchor the model paraphrased
+export function checkHighlightMappings(copy: Pick<GeneratedCopy, 'headline' | 'subheadline'>, coreMessaging: CoreMessaging): HighlightCheck[] {
+  const fullText = `${copy.headline} ${copy.subheadline}`;
+
+  return collectHighlightPhrases(coreMessaging, fullText)
+    .filter(phrase => phrase.text.trim())
+    .map(phrase => ({ ...phrase, found: fullText.toLowerCase().includes(phrase.text.toLowerCase()) }));
+}
+
+function collectHighlightPhrases(coreMessaging: CoreMessaging, generatedText?: string): HighlightPhrase[] {
+  const phrases: HighlightPhrase[] = [];
+
+  // Primary anchor - exact text
+  if (coreMessaging.primaryAnchor.content) {
+    phrases.push({ text: coreMessaging.primaryAnchor.content, color: HIGHLIGHT_COLORS.primaryAnchor, type: 'Primary Anchor' });
+  }
+
+  // Secondary anchor - exact text
+  if (coreMessaging.secondaryAnchor.content) {
+    phrases.push({ text: coreMessaging.secondaryAnchor.content, color: HIGHLIGHT_COLORS.secondaryAnchor, type: 'Secondary Anchor' });
+  }
+
+  // ICP segments - exact text
+  coreMessaging.icp?.forEach(icpSegment => {
+    if (icpSegment && icpSegment.trim()) {
+      phrases.push({ text: icpSegment.trim(), color: HIGHLIGHT_COLORS.secondaryAnchor, type: 'ICP Segment' });
+    }
+  });
+
+  // Problem/solution phrases detected in the generated copy
+  if (generatedText) {
+    phrases.push(...mergeOverlappingPhrases(identifyGeneratedPhrases(generatedText, coreMessaging), generatedText));
+  }
+
+  return phrases;
+}
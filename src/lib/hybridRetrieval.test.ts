@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createBm25Index,
+  fuseRankings,
+  rankHybridCandidates,
+  selectDiverse,
+  type RankableExample
+} from '@/lib/hybridRetrieval';
+
+const example = (id: number, overrides: Partial<RankableExample> = {}): RankableExample => ({
+  id,
+  anchor_type: 'Product Category',
+  industry: 'martech',
+  effectiveness: 'high',
+  tone: 'professional',
+  structure: 'category-for-audience',
+  ...overrides
+});
+
+describe('createBm25Index', () => {
+  it('ranks documents by shared rare terms and skips ones with none', () => {
+    const index = createBm25Index([
+      { id: 1, fields: ['Payroll software for startups'] },
+      { id: 2, fields: ['Customer data platform for retailers'] },
+      { id: 3, fields: ['Data warehouse for analysts'] }
+    ]);
+
+    expect(index.search('customer data', 10).map(match => match.id)).toEqual([2, 3]);
+    expect(index.search('the and of', 10)).toEqual([]);
+  });
+});
+
+describe('fuseRankings', () => {
+  it('scores an id first in every ranking as 1 and favours agreement', () => {
+    const fused = fuseRankings([[1, 2, 3], [1, 3, 2]]);
+    expect(fused.get(1)).toBe(1);
+    expect(fused.get(3)!).toBeGreaterThan(0);
+    expect(fused.get(2)).toBeCloseTo(fused.get(3)!);
+  });
+});
+
+describe('rankHybridCandidates', () => {
+  const candidates = [example(1), example(2), example(3)];
+
+  it('orders by fused rank when nothing is boosted, ahead of what one retriever alone found', () => {
+    const ranked = rankHybridCandidates(
+      candidates,
+      [{ id: 2, similarity: 0.9 }, { id: 1, similarity: 0.8 }, { id: 3, similarity: 0.7 }],
+      [{ id: 2, score: 4 }, { id: 3, score: 2 }],
+      {}
+    );
+
+    expect(ranked.map(entry => entry.example.id)).toEqual([2, 3, 1]);
+    expect(ranked[0].match).toMatchObject({ vector: 0.9, lexical: 4, fused: 1 });
+  });
+
+  it('runs on one retriever when the other is unavailable', () => {
+    const ranked = rankHybridCandidates(candidates, null, [{ id: 3, score: 2 }, { id: 1, score: 1 }], {});
+    expect(ranked.map(entry => entry.example.id)).toEqual([3, 1, 2]);
+    expect(ranked[0].match.vector).toBeUndefined();
+  });
+
+  it('lets an exact anchor match and metadata boosts lift a lower-ranked example', () => {
+    const ranked = rankHybridCandidates(
+      [example(1), example(2, { primary_anchor: 'CRM', tone: 'technical' })],
+      [{ id: 1, similarity: 0.9 }, { id: 2, similarity: 0.85 }],
+      null,
+      { anchor: 'crm', boosts: { tone: 'technical' } }
+    );
+    expect(ranked.map(entry => entry.example.id)).toEqual([2, 1]);
+  });
+});
+
+describe('selectDiverse', () => {
+  const candidates = [
+    example(1),
+    example(2),
+    example(3, { structure: 'problem-first', anchor_type: 'Use Case', industry: 'fintech' })
+  ];
+  const relevance = (candidate: RankableExample) => ({ 1: 1, 2: 0.95, 3: 0.7 })[candidate.id as 1 | 2 | 3];
+
+  it('keeps relevance order without diversity', () => {
+    expect(selectDiverse(candidates, 2, 0, relevance).map(candidate => candidate.id)).toEqual([1, 2]);
+  });
+
+  it('prefers a different pattern over a near duplicate with diversity', () => {
+    expect(selectDiverse(candidates, 2, 0.5, relevance).map(candidate => candidate.id)).toEqual([1, 3]);
+  });
+
+  it('puts preselected examples first and counts them towards the total', () => {
+    expect(selectDiverse(candidates.slice(0, 2), 2, 0.3, relevance, [candidates[2]]).map(candidate => candidate.id))
+      .toEqual([3, 1]);
+  });
+});
@@ -0,0 +1,237 @@
+import type { RetrievalBoosts, RetrievalFilters, RetrievalMatch } from '@/types';
+
+// Lexical scoring, rank fusion and metadata matching for hybrid example retrieval
+
+// BM25 defaults (Robertson/Sparck Jones); the example fields are short, so length normalisation stays moderate
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Reciprocal rank fusion constant from Cormack et al.; dampens the gap between the first few ranks
+export const RRF_K = 60;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into', 'is', 'it', 'its',
+  'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'we', 'with', 'you', 'your',
+]);
+
+// Added to an example's score per matching boost
+export const METADATA_BOOST_WEIGHT = 0.05;
+
+export const DEFAULT_EXAMPLE_COUNT = 3;
+export const MAX_EXAMPLE_COUNT = 6;
+export const DEFAULT_DIVERSITY = 0.3;
+
+// Hybrid retrieval: each retriever contributes this many candidates per requested example before fusion
+export const RETRIEVAL_CANDIDATE_MULTIPLIER = 4;
+export const VECTOR_MATCH_THRESHOLD = 0.6;
+// Rerank boost on top of the fused score (0 - 1), alongside the metadata boosts. It lets short category
+// names like "CRM" win on an exact match even when their embeddings are weak.
+export const ANCHOR_MATCH_BOOST = 0.1;
+
+// Example columns the filters and boosts look at
+export interface ExampleMetadata {
+  anchor_type: string;
+  industry: string;
+  effectiveness: string;
+  tone: string;
+  structure: string;
+}
+
+// Example columns the rerank looks at
+export interface RankableExample extends ExampleMetadata {
+  id: number;
+  primary_anchor?: string;
+  tagline?: string;
+}
+
+export interface LexicalDocument {
+  id: number;
+  fields: string[];
+}
+
+export interface LexicalMatch {
+  id: number;
+  score: number;
+}
+
+export interface Bm25Index {
+  size: number;
+  search(query: string, limit: number): LexicalMatch[];
+}
+
+// Lowercase word tokens with a light plural strip. Two-letter tokens are kept so "ai" and "hr" still match.
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+// Okapi BM25 over the concatenated fields of each document
+export function createBm25Index(documents: LexicalDocument[]): Bm25Index {
+  const termFrequencies = documents.map(document => {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(document.fields.join(' '));
+    tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+    return { id: document.id, counts, length: tokens.length };
+  });
+
+  const documentFrequency = new Map<string, number>();
+  termFrequencies.forEach(({ counts }) => {
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  });
+
+  const averageLength = termFrequencies.reduce((sum, doc) => sum + doc.length, 0) / (termFrequencies.length || 1);
+  const idf = (term: string) => {
+    const n = documentFrequency.get(term) || 0;
+    return Math.log(1 + (documents.length - n + 0.5) / (n + 0.5));
+  };
+
+  return {
+    size: documents.length,
+    search(query: string, limit: number): LexicalMatch[] {
+      const terms = [...new Set(tokenize(query))];
+      if (terms.length === 0) return [];
+
+      return termFrequencies
+        .map(doc => {
+          const score = terms.reduce((sum, term) => {
+            const frequency = doc.counts.get(term) || 0;
+            if (frequency === 0) return sum;
+            const norm = BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / (averageLength || 1)));
+            return sum + idf(term) * (frequency * (BM25_K1 + 1)) / (frequency + norm);
+          }, 0);
+          return { id: doc.id, score };
+        })
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
+
+// Reciprocal rank fusion of several ranked id lists, scaled to 0 - 1 (1 = first in every list)
+export function fuseRankings(rankings: number[][], k = RRF_K): Map<number, number> {
+  const fused = new Map<number, number>();
+  if (rankings.length === 0) return fused;
+
+  rankings.forEach(ranking => {
+    ranking.forEach((id, index) => fused.set(id, (fused.get(id) || 0) + 1 / (k + index + 1)));
+  });
+
+  const best = rankings.length / (k + 1);
+  fused.forEach((score, id) => fused.set(id, score / best));
+  return fused;
+}
+
+// Industries are stored both as "market research" and "influencer_marketing"
+export function normalizeIndustry(industry: string): string {
+  return industry.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+export function matchesRetrievalFilters(example: ExampleMetadata, filters: RetrievalFilters = {}): boolean {
+  const allows = <T extends string>(allowed: T[] | undefined, value: string) =>
+    !allowed || allowed.length === 0 || (allowed as string[]).includes(value);
+
+  return allows(filters.anchorTypes, example.anchor_type) &&
+    allows(filters.industries?.map(normalizeIndustry).filter(Boolean), normalizeIndustry(example.industry || '')) &&
+    allows(filters.effectiveness, example.effectiveness) &&
+    allows(filters.tones, example.tone?.toLowerCase() || '');
+}
+
+export function metadataBoost(example: ExampleMetadata, boosts: RetrievalBoosts = {}): number {
+  const matches = [
+    boosts.anchorType && example.anchor_type === boosts.anchorType,
+    boosts.industry && normalizeIndustry(example.industry || '') === normalizeIndustry(boosts.industry),
+    boosts.effectiveness && example.effectiveness === boosts.effectiveness,
+    boosts.tone && example.tone?.toLowerCase() === boosts.tone,
+  ];
+  return matches.filter(Boolean).length * METADATA_BOOST_WEIGHT;
+}
+
+// Exact anchor terms in the example's anchor or tagline, and matching metadata, lift it over its fused score
+export function rerankBoost(example: RankableExample, anchor?: string, boosts?: RetrievalBoosts): number {
+  let boost = metadataBoost(example, boosts);
+
+  const anchorTerms = tokenize(anchor || '');
+  if (anchorTerms.length > 0) {
+    const exampleTerms = new Set(tokenize(`${example.primary_anchor || ''} ${example.tagline || ''}`));
+    if (anchorTerms.every(term => exampleTerms.has(term))) boost += ANCHOR_MATCH_BOOST;
+  }
+
+  return boost;
+}
+
+// Fuses the vector and lexical rankings (best first; null when that retriever is unavailable) with reciprocal
+// rank fusion and reranks the candidates by fused score plus rerank boost. Returns every candidate, best first.
+export function rankHybridCandidates<T extends RankableExample>(
+  candidates: T[],
+  vectorHits: Array<{ id: number; similarity: number }> | null,
+  lexicalHits: LexicalMatch[] | null,
+  query: { anchor?: string; boosts?: RetrievalBoosts }
+): Array<{ example: T; match: RetrievalMatch }> {
+  const rankings: number[][] = [];
+  if (vectorHits) rankings.push(vectorHits.map(hit => hit.id));
+  if (lexicalHits) rankings.push(lexicalHits.map(hit => hit.id));
+  const fused = fuseRankings(rankings);
+
+  const vectorScores = new Map(vectorHits?.map(hit => [hit.id, hit.similarity]));
+  const lexicalScores = new Map(lexicalHits?.map(hit => [hit.id, hit.score]));
+
+  return candidates
+    .map(example => {
+      const fusedScore = fused.get(example.id) || 0;
+      return {
+        example,
+        match: {
+          vector: vectorScores.get(example.id),
+          lexical: lexicalScores.get(example.id),
+          fused: fusedScore,
+          score: fusedScore + rerankBoost(example, query.anchor, query.boosts)
+        }
+      };
+    })
+    .sort((a, b) => b.match.score - a.match.score);
+}
+
+// Share of structure, anchor type and industry two examples have in common, 0 - 1
+export function exampleOverlap(a: ExampleMetadata, b: ExampleMetadata): number {
+  const same = (x?: string, y?: string) => !!x && !!y && x.toLowerCase() === y.toLowerCase();
+  return [
+    same(a.structure, b.structure),
+    same(a.anchor_type, b.anchor_type),
+    same(normalizeIndustry(a.industry || ''), normalizeIndustry(b.industry || '')),
+  ].filter(Boolean).length / 3;
+}
+
+// Maximal marginal relevance: pick candidates one at a time, trading relevance (scaled to the best candidate)
+// against overlap with the ones already picked. Candidates must be sorted best first.
+// Preselected items (user pins) come first, always stay in and count towards the total.
+export function selectDiverse<T extends ExampleMetadata>(
+  candidates: T[],
+  count: number,
+  diversity: number,
+  relevance: (candidate: T) => number,
+  preselected: T[] = []
+): T[] {
+  const best = Math.max(...candidates.map(relevance), Number.EPSILON);
+  const remaining = [...candidates];
+  const selected: T[] = [...preselected];
+
+  while (selected.length < count && remaining.length > 0) {
+    let pick = 0;
+    let pickScore = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const redundancy = Math.max(0, ...selected.map(chosen => exampleOverlap(candidate, chosen)));
+      const score = (1 - diversity) * (relevance(candidate) / best) - diversity * redundancy;
+      if (score > pickScore) {
+        pick = index;
+        pickScore = score;
+      }
+    });
+    selected.push(...remaining.splice(pick, 1));
+  }
+
+  return selected;
+}
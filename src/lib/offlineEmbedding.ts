@@ -0,0 +1,44 @@
+import type { FeatureExtractionPipeline } from '@xenova/transformers';
+
+// Small sentence-embedding model run in-process with @xenova/transformers: in a Web Worker in the browser
+// (see src/workers/embeddingWorker.ts) and directly in Node for scripts. Used when the backend embedding
+// endpoint cannot be reached. Its vectors are not comparable with the backend's, so the corpus keeps them
+// in a parallel embedding_local column at this dimension.
+
+export const OFFLINE_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+export const OFFLINE_EMBEDDING_DIMENSIONS = 384;
+
+export interface OfflineEmbeddingOptions {
+  // Load model files from here (a URL path in the browser, a directory in Node) and never from the
+  // Hugging Face hub, for air-gapped installs
+  localModelPath?: string;
+}
+
+let extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+// The library and model are loaded on first use (a ~25 MB download unless served locally) and reused
+// afterwards; importing the constants alone stays cheap
+function getExtractor(options: OfflineEmbeddingOptions): Promise<FeatureExtractionPipeline> {
+  if (!extractor) {
+    extractor = import('@xenova/transformers').then(({ env, pipeline }) => {
+      if (options.localModelPath) {
+        env.localModelPath = options.localModelPath;
+        env.allowLocalModels = true;
+        env.allowRemoteModels = false;
+      }
+      return pipeline('feature-extraction', OFFLINE_EMBEDDING_MODEL);
+    });
+    // Retry the load on the next call instead of remembering a failure
+    extractor.catch(() => {
+      extractor = null;
+    });
+  }
+  return extractor;
+}
+
+// Mean-pooled, normalised sentence embedding of OFFLINE_EMBEDDING_DIMENSIONS values
+export async function embedOffline(text: string, options: OfflineEmbeddingOptions = {}): Promise<number[]> {
+  const embed = await getExtractor(options);
+  const output = await embed(text, { pooling: 'mean', normalize: true });
+  return Array.from(output.data as Float32Array);
+}
@@ -0,0 +1,58 @@
+import { promptTemplates, type PromptTemplate } from '@/data/promptTemplates';
+import type { PromptRef } from '@/types';
+
+// Raised for unknown templates or missing variables; a half-filled prompt is never sent
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+export interface RenderedPrompt {
+  text: string;
+  ref: PromptRef;
+}
+
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+// Latest version of a template unless a specific version is requested
+export function getPromptTemplate(id: string, version?: number): PromptTemplate {
+  const candidates = promptTemplates.filter(template => template.id === id);
+  if (candidates.length === 0) {
+    throw new PromptTemplateError(`Unknown prompt template '${id}'`);
+  }
+
+  if (version !== undefined) {
+    const match = candidates.find(template => template.version === version);
+    if (!match) {
+      throw new PromptTemplateError(`Prompt template '${id}' has no version ${version}`);
+    }
+    return match;
+  }
+
+  return candidates.reduce((latest, template) => (template.version > latest.version ? template : latest));
+}
+
+// Fill {{variables}}; every variable the template declares must be supplied
+export function renderPrompt(id: string, variables: Record<string, string>, version?: number): RenderedPrompt {
+  const template = getPromptTemplate(id, version);
+
+  const missing = template.variables.filter(name => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new PromptTemplateError(`Prompt '${id}' v${template.version} is missing variables: ${missing.join(', ')}`);
+  }
+
+  const text = template.template.replace(VARIABLE_PATTERN, (_placeholder, name: string) => {
+    if (!template.variables.includes(name)) {
+      throw new PromptTemplateError(`Prompt '${id}' v${template.version} uses undeclared variable '${name}'`);
+    }
+    return variables[name];
+  });
+
+  return { text, ref: { id: template.id, version: template.version } };
+}
+
+export function formatPromptRef(ref: PromptRef): string {
+  return `${ref.id}@v${ref.version}`;
+}
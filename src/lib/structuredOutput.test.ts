@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { CoreMessaging } from '@/types';
+import { GenerationValidationError, parseStructuredContent, parseStructuredVariants } from '@/lib/structuredOutput';
+
+const coreMessaging: CoreMessaging = {
+  primaryAnchor: { type: 'Product Category', content: 'Customer data platform' },
+  secondaryAnchor: { type: '', content: '' },
+  problem: '',
+  differentiator: '',
+  icp: [],
+  thesis: ['Real-time beats batch', ' '],
+  risks: ['Crowded category']
+};
+
+const copy = { headline: 'The customer data platform', subheadline: 'One profile per customer.', opportunity: 'Retailers need it.' };
+
+function validationIssues(parse: () => unknown): string[] {
+  try {
+    parse();
+  } catch (error) {
+    expect(error).toBeInstanceOf(GenerationValidationError);
+    return (error as GenerationValidationError).issues;
+  }
+  throw new Error('Expected a GenerationValidationError');
+}
+
+describe('parseStructuredContent', () => {
+  it('reads fenced JSON and merges in the filled thesis and risks', () => {
+    const content = parseStructuredContent(`\`\`\`json\n${JSON.stringify(copy)}\n\`\`\``, coreMessaging);
+    expect(content).toMatchObject({ ...copy, thesis: ['Real-time beats batch'], risks: ['Crowded category'] });
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(validationIssues(() => parseStructuredContent('{"headline": "Cut off'))).toEqual(['Response was not valid JSON']);
+    expect(validationIssues(() => parseStructuredContent('HEADLINE: Plain text'))).toEqual(['Response was not valid JSON']);
+  });
+
+  it('rejects JSON with a missing or blank section', () => {
+    const issues = validationIssues(() => parseStructuredContent(JSON.stringify({ ...copy, headline: '  ', opportunity: undefined })));
+    expect(issues).toHaveLength(2);
+    expect(issues.join(' ')).toMatch(/headline/);
+    expect(issues.join(' ')).toMatch(/opportunity/);
+  });
+});
+
+describe('parseStructuredVariants', () => {
+  it('keeps the valid candidates and drops the rest', () => {
+    const variants = parseStructuredVariants(JSON.stringify({ variants: [copy, { headline: 'No subheadline' }] }));
+    expect(variants).toEqual([copy]);
+  });
+
+  it('accepts a bare single-copy object', () => {
+    expect(parseStructuredVariants(JSON.stringify(copy))).toEqual([copy]);
+  });
+
+  it('fails when no candidate is valid', () => {
+    const issues = validationIssues(() => parseStructuredVariants(JSON.stringify({ variants: [{ headline: 'Only a headline' }] })));
+    expect(issues.every(issue => issue.startsWith('variants.0.'))).toBe(true);
+  });
+});
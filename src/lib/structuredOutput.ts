@@ -0,0 +1,145 @@
+import type { CoreMessaging, GeneratedContent } from '@/types';
+import {
+  GeneratedContentSchema,
+  GeneratedCopySchema,
+  GeneratedVariantsSchema,
+  type GeneratedCopyData,
+} from '@/lib/validations';
+
+// Raised when the model output cannot be turned into valid GeneratedContent
+export class GenerationValidationError extends Error {
+  readonly issues: string[];
+  readonly rawContent: string;
+  readonly attempts: number;
+
+  constructor(issues: string[], rawContent: string, attempts = 1) {
+    super(`Generated content failed validation: ${issues.join('; ')}`);
+    this.name = 'GenerationValidationError';
+    this.issues = issues;
+    this.rawContent = rawContent;
+    this.attempts = attempts;
+  }
+}
+
+// Prompt footer asking for the JSON shape validated below
+export const STRUCTURED_OUTPUT_INSTRUCTIONS = `Respond with a single JSON object and nothing else, using exactly these keys:
+{
+  "headline": "...",
+  "subheadline": "...",
+  "opportunity": "..."
+}`;
+
+// Prompt footer for multi-candidate generation; {{variantCount}} is filled in by the template
+export const STRUCTURED_VARIANTS_INSTRUCTIONS = `Write {{variantCount}} distinct variants that differ in wording and angle, not just punctuation.
+Respond with a single JSON object and nothing else, using exactly this shape:
+{
+  "variants": [
+    { "headline": "...", "subheadline": "...", "opportunity": "..." }
+  ]
+}`;
+
+// Strip markdown code fences some models wrap around JSON
+function extractJson(rawContent: string): string {
+  const fenced = rawContent.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  return (fenced ? fenced[1] : rawContent).trim();
+}
+
+// Parse and validate a structured completion, merging in the user's thesis and risks
+export function parseStructuredContent(rawContent: string, coreMessaging?: CoreMessaging): GeneratedContent {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(rawContent));
+  } catch {
+    throw new GenerationValidationError(['Response was not valid JSON'], rawContent);
+  }
+
+  const copy = GeneratedCopySchema.safeParse(parsed);
+  if (!copy.success) {
+    throw new GenerationValidationError(
+      copy.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`),
+      rawContent
+    );
+  }
+
+  return buildGeneratedContent(copy.data, rawContent, coreMessaging);
+}
+
+// Combine validated copy with the user's thesis and risks into GeneratedContent
+export function buildGeneratedContent(
+  copy: GeneratedCopyData,
+  rawContent: string,
+  coreMessaging?: CoreMessaging
+): GeneratedContent {
+  const content = GeneratedContentSchema.safeParse({
+    ...copy,
+    thesis: coreMessaging?.thesis.filter(point => point.trim()) || [],
+    risks: coreMessaging?.risks.filter(risk => risk.trim()) || [],
+  });
+  if (!content.success) {
+    throw new GenerationValidationError(
+      content.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+      rawContent
+    );
+  }
+
+  return content.data;
+}
+
+// Parse a multi-candidate completion. Invalid candidates are dropped; it only fails when none survive.
+// A bare single-copy object is accepted too, so older templates and cached output still parse.
+export function parseStructuredVariants(rawContent: string): GeneratedCopyData[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(rawContent));
+  } catch {
+    throw new GenerationValidationError(['Response was not valid JSON'], rawContent);
+  }
+
+  const single = GeneratedCopySchema.safeParse(parsed);
+  if (single.success) return [single.data];
+
+  const envelope = GeneratedVariantsSchema.safeParse(parsed);
+  if (!envelope.success) {
+    throw new GenerationValidationError(
+      envelope.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`),
+      rawContent
+    );
+  }
+
+  const issues: string[] = [];
+  const variants: GeneratedCopyData[] = [];
+  envelope.data.variants.forEach((candidate, index) => {
+    const copy = GeneratedCopySchema.safeParse(candidate);
+    if (copy.success) {
+      variants.push(copy.data);
+    } else {
+      issues.push(...copy.error.issues.map(issue => `variants.${index}.${issue.path.join('.')}: ${issue.message}`));
+    }
+  });
+
+  if (variants.length === 0) {
+    throw new GenerationValidationError(issues, rawContent);
+  }
+  return variants;
+}
+
+// Best-effort read of the string fields present so far in an incomplete JSON stream
+// (for variant output this is the first candidate)
+export function extractPartialCopy(partialJson: string): Partial<GeneratedCopyData> {
+  const copy: Partial<GeneratedCopyData> = {};
+
+  for (const field of ['headline', 'subheadline', 'opportunity'] as const) {
+    const match = partialJson.match(new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)`));
+    if (!match) continue;
+
+    // Drop a dangling escape so the fragment can be decoded as a JSON string
+    const fragment = match[1].replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+    try {
+      copy[field] = JSON.parse(`"${fragment}"`);
+    } catch {
+      copy[field] = fragment;
+    }
+  }
+
+  return copy;
+}
@@ -14,14 +14,79 @@ export const CoreMessagingSchema = z.object({
   icp: z.array(z.string()).min(1, 'At least one ICP segment is required').max(5, 'Maximum 5 ICP segments recommended for focus'),
   thesis: z.array(z.string()),
   risks: z.array(z.string()),
+  tone: z.enum(['professional', 'casual', 'technical']).optional(),
+  retrieval: z.object({
+    filters: z.object({
+      anchorTypes: z.array(z.enum(['Product Category', 'Use Case', 'Competitive Alternative'])).optional(),
+      industries: z.array(z.string()).optional(),
+      effectiveness: z.array(z.enum(['high', 'medium', 'low'])).optional(),
+      tones: z.array(z.enum(['professional', 'casual', 'technical'])).optional(),
+    }).optional(),
+    boosts: z.object({
+      anchorType: z.enum(['Product Category', 'Use Case', 'Competitive Alternative']).optional(),
+      industry: z.string().optional(),
+      effectiveness: z.enum(['high', 'medium', 'low']).optional(),
+      tone: z.enum(['professional', 'casual', 'technical']).optional(),
+    }).optional(),
+    exampleCount: z.number().int().min(1).max(6).optional(),
+    diversity: z.number().min(0).max(1).optional(),
+  }).optional(),
 });
 
 export const GeneratedContentSchema = z.object({
-  headline: z.string(),
-  subheadline: z.string(),
+  headline: z.string().trim().min(1, 'Headline is required'),
+  subheadline: z.string().trim().min(1, 'Subheadline is required'),
   thesis: z.array(z.string()),
   risks: z.array(z.string()),
-  opportunity: z.string(),
+  opportunity: z.string().trim().min(1, 'Opportunity is required'),
+  prompt: z.object({ id: z.string(), version: z.number() }).optional(),
+  variants: z.array(z.object({
+    headline: z.string(),
+    subheadline: z.string(),
+    opportunity: z.string(),
+    score: z.number(),
+    issues: z.array(z.string()),
+  })).optional(),
+  selectedVariant: z.number().int().min(0).optional(),
+  lockedSections: z.array(z.enum(['headline', 'subheadline', 'opportunity'])).optional(),
+  provenance: z.object({
+    source: z.enum(['live', 'cache', 'rag-fallback', 'app-fallback']),
+    cacheHit: z.boolean(),
+    degraded: z.boolean().optional(),
+    provider: z.string().optional(),
+    model: z.string().optional(),
+    retrieval: z.enum(['hybrid', 'vector', 'lexical', 'fallback']).optional(),
+    settings: z.object({
+      temperature: z.number(),
+      top_p: z.number(),
+      provider: z.enum(['openai', 'local', 'mock']).optional(),
+      model: z.string().optional(),
+    }).optional(),
+    examples: z.array(z.object({
+      id: z.number(),
+      company: z.string(),
+      similarity: z.number(),
+      match: z.object({
+        vector: z.number().optional(),
+        lexical: z.number().optional(),
+        fused: z.number(),
+        score: z.number(),
+        pinned: z.boolean().optional(),
+      }).optional(),
+    })),
+  }).optional(),
+});
+
+// The sections the model writes; thesis and risks always come from the form
+export const GeneratedCopySchema = GeneratedContentSchema.pick({
+  headline: true,
+  subheadline: true,
+  opportunity: true,
+});
+
+// Multi-candidate response shape; individual candidates are validated with GeneratedCopySchema
+export const GeneratedVariantsSchema = z.object({
+  variants: z.array(z.unknown()).min(1, 'At least one variant is required'),
 });
 
 export const TrainingExampleSchema = z.object({
@@ -37,4 +102,5 @@ export const TrainingExampleSchema = z.object({
 
 export type CoreMessagingFormData = z.infer<typeof CoreMessagingSchema>;
 export type GeneratedContentData = z.infer<typeof GeneratedContentSchema>;
+export type GeneratedCopyData = z.infer<typeof GeneratedCopySchema>;
 export type TrainingExampleData = z.infer<typeof TrainingExampleSchema>;
\ No newline at end of file
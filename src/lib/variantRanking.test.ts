@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { CoreMessaging } from '@/types';
+import { rankVariants, scoreVariant } from '@/lib/variantRanking';
+
+const coreMessaging: CoreMessaging = {
+  primaryAnchor: { type: 'Product Category', content: 'Customer data platform' },
+  secondaryAnchor: { type: 'Company Type', content: 'retailers' },
+  problem: '',
+  differentiator: '',
+  icp: ['marketing teams'],
+  thesis: [],
+  risks: []
+};
+
+const good = {
+  headline: 'The customer data platform for retailers',
+  subheadline: 'Built for marketing teams who need one profile per customer.',
+  opportunity: 'Mid-market retail has no real-time option.'
+};
+
+describe('scoreVariant', () => {
+  it('gives copy that follows every rule full marks', () => {
+    expect(scoreVariant(good, coreMessaging)).toMatchObject({ score: 100, issues: [] });
+  });
+
+  it('deducts for each banned phrase and a missing anchor', () => {
+    const scored = scoreVariant(
+      { ...good, headline: 'Unlock seamless growth for retailers' },
+      coreMessaging
+    );
+    expect(scored.score).toBe(100 - 35 - 20 - 20);
+    expect(scored.issues).toEqual([
+      'Headline is missing the primary anchor',
+      'Uses banned phrase "unlock"',
+      'Uses banned phrase "seamless"'
+    ]);
+  });
+});
+
+describe('rankVariants', () => {
+  it('drops duplicates and orders best first, keeping the model order on ties', () => {
+    const banned = { ...good, opportunity: 'A game-changer for retail.' };
+    const tied = { ...good, subheadline: 'Marketing teams get one profile per customer.' };
+    const ranked = rankVariants([banned, good, { ...good, headline: ` ${good.headline.toUpperCase()} ` }, tied], coreMessaging);
+
+    expect(ranked.map(variant => variant.score)).toEqual([100, 100, 80]);
+    expect(ranked.map(variant => variant.subheadline)).toEqual([good.subheadline, tied.subheadline, banned.subheadline]);
+  });
+});
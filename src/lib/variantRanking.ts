@@ -0,0 +1,114 @@
+import type { CoreMessaging, HeadlineVariant } from '@/types';
+import type { GeneratedCopyData } from '@/lib/validations';
+
+// Generic positioning language the prompt forbids; also rendered into the prompt template
+export const BANNED_PHRASES = [
+  'say goodbye',
+  'transform',
+  'unlock',
+  'revolutionize',
+  'game-changer',
+  'cutting-edge',
+  'seamless',
+  'next-generation',
+];
+
+// Headline word counts outside this range read as a label or a paragraph
+const HEADLINE_WORDS = { min: 3, max: 12 };
+const SUBHEADLINE_MAX_SENTENCES = 2;
+const SUBHEADLINE_MAX_CHARS = 220;
+
+// Deductions from a perfect 100
+const PENALTY = {
+  missingPrimaryAnchor: 35,
+  missingSecondaryAnchor: 15,
+  missingIcp: 10,
+  headlineLengthPerWord: 5,
+  headlineLengthMax: 20,
+  headlineTooShort: 10,
+  subheadlineSentences: 10,
+  subheadlineChars: 10,
+  bannedPhrase: 20,
+};
+
+function includesText(haystack: string, needle: string): boolean {
+  return haystack.toLowerCase().includes(needle.trim().toLowerCase());
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function countSentences(text: string): number {
+  return text.split(/[.!?]+(?:\s|$)/).filter(sentence => sentence.trim()).length;
+}
+
+// Score one candidate against the rules the prompt states
+export function scoreVariant(copy: GeneratedCopyData, coreMessaging: CoreMessaging): HeadlineVariant {
+  const issues: string[] = [];
+  let score = 100;
+
+  const primary = coreMessaging.primaryAnchor.content.trim();
+  if (primary && !includesText(copy.headline, primary)) {
+    score -= PENALTY.missingPrimaryAnchor;
+    issues.push('Headline is missing the primary anchor');
+  }
+
+  const secondary = coreMessaging.secondaryAnchor.content.trim();
+  if (secondary && !includesText(copy.headline, secondary)) {
+    score -= PENALTY.missingSecondaryAnchor;
+    issues.push('Headline is missing the secondary anchor');
+  }
+
+  const icp = coreMessaging.icp.map(segment => segment.trim()).filter(Boolean);
+  const headlineAndSub = `${copy.headline} ${copy.subheadline}`;
+  if (icp.length > 0 && !icp.some(segment => includesText(headlineAndSub, segment))) {
+    score -= PENALTY.missingIcp;
+    issues.push('No ICP segment is mentioned');
+  }
+
+  const headlineWords = countWords(copy.headline);
+  if (headlineWords > HEADLINE_WORDS.max) {
+    score -= Math.min(PENALTY.headlineLengthMax, (headlineWords - HEADLINE_WORDS.max) * PENALTY.headlineLengthPerWord);
+    issues.push(`Headline is ${headlineWords} words (max ${HEADLINE_WORDS.max})`);
+  } else if (headlineWords < HEADLINE_WORDS.min) {
+    score -= PENALTY.headlineTooShort;
+    issues.push(`Headline is only ${headlineWords} words`);
+  }
+
+  const sentences = countSentences(copy.subheadline);
+  if (sentences > SUBHEADLINE_MAX_SENTENCES) {
+    score -= PENALTY.subheadlineSentences;
+    issues.push(`Subheadline is ${sentences} sentences (max ${SUBHEADLINE_MAX_SENTENCES})`);
+  }
+  if (copy.subheadline.length > SUBHEADLINE_MAX_CHARS) {
+    score -= PENALTY.subheadlineChars;
+    issues.push(`Subheadline is ${copy.subheadline.length} characters (max ${SUBHEADLINE_MAX_CHARS})`);
+  }
+
+  const fullText = `${copy.headline} ${copy.subheadline} ${copy.opportunity}`;
+  BANNED_PHRASES.filter(phrase => includesText(fullText, phrase)).forEach(phrase => {
+    score -= PENALTY.bannedPhrase;
+    issues.push(`Uses banned phrase "${phrase}"`);
+  });
+
+  return { ...copy, score: Math.max(0, score), issues };
+}
+
+// Score, drop duplicates and order best first (ties keep the model's order).
+// Duplicates compare all sections, since a locked headline is shared by every variant.
+export function rankVariants(copies: GeneratedCopyData[], coreMessaging: CoreMessaging): HeadlineVariant[] {
+  const seen = new Set<string>();
+  const unique = copies.filter(copy => {
+    const key = [copy.headline, copy.subheadline, copy.opportunity]
+      .map(section => section.replace(/\s+/g, ' ').trim().toLowerCase())
+      .join('|');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return unique
+    .map(copy => scoreVariant(copy, coreMessaging))
+    .sort((a, b) => b.score - a.score);
+}
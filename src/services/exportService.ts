@@ -0,0 +1,233 @@
+import type { CoreMessaging, GeneratedContent, GenerationProvenance } from '@/types';
+import type { jsPDF } from 'jspdf';
+import { formatPromptRef } from '@/lib/promptRegistry';
+
+export interface PdfExportOptions {
+  canvasElement: HTMLElement;
+  coreMessaging?: CoreMessaging;
+  generatedContent?: GeneratedContent;
+  versionName?: string;
+  createdAt?: Date;
+}
+
+// A4 portrait in millimetres
+const PAGE = {
+  width: 210,
+  height: 297,
+  margin: 15,
+};
+
+// html2canvas scale factor - 2x device pixels keeps text crisp when printed
+const PRINT_SCALE = 2;
+
+// First list with a non-blank entry; the form keeps [''] placeholder rows, which count as empty
+function firstFilledList(...lists: (string[] | undefined)[]): string[] {
+  return lists.map(list => (list || []).filter(item => item && item.trim())).find(list => list.length > 0) || [];
+}
+
+class ExportService {
+  async exportPositioningPdf(options: PdfExportOptions): Promise<void> {
+    // Load the export libraries on demand (vendor-export chunk)
+    const [{ jsPDF: JsPDF }, { default: html2canvas }] = await Promise.all([
+      import('jspdf'),
+      import('html2canvas'),
+    ]);
+
+    const pdf = new JsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+
+    // 1. Canvas snapshot with highlights intact
+    const snapshot = await html2canvas(options.canvasElement, {
+      scale: PRINT_SCALE,
+      backgroundColor: '#ffffff',
+      useCORS: true,
+      logging: false,
+    });
+    this.addCanvasImage(pdf, snapshot);
+
+    // 2. Detail pages
+    const writer = new PdfTextWriter(pdf);
+    pdf.addPage();
+
+    writer.title('Positioning Strategy');
+    writer.field('Version', options.versionName || 'Untitled version');
+    writer.field('Created', options.createdAt ? options.createdAt.toLocaleString() : 'Unknown');
+    writer.field('Exported', new Date().toLocaleString());
+
+    const { coreMessaging, generatedContent } = options;
+
+    if (generatedContent) {
+      writer.heading('Generated Positioning');
+      writer.field('Headline', generatedContent.headline);
+      writer.field('Subheadline', generatedContent.subheadline);
+      writer.field('Opportunity', generatedContent.opportunity);
+      if (generatedContent.prompt) {
+        writer.field('Prompt Template', formatPromptRef(generatedContent.prompt));
+      }
+      if (generatedContent.provenance) {
+        writer.field('Source', this.describeSource(generatedContent.provenance));
+      }
+    }
+
+    if (coreMessaging) {
+      writer.heading('Core Messaging Inputs');
+      writer.field(
+        `Primary Anchor${coreMessaging.primaryAnchor.type ? ` (${coreMessaging.primaryAnchor.type})` : ''}`,
+        coreMessaging.primaryAnchor.content
+      );
+      writer.field(
+        `Secondary Anchor${coreMessaging.secondaryAnchor.type ? ` (${coreMessaging.secondaryAnchor.type})` : ''}`,
+        coreMessaging.secondaryAnchor.content
+      );
+      writer.list('Ideal Customer Profile', coreMessaging.icp);
+      writer.field('Tone', coreMessaging.tone || 'professional');
+      writer.field('Problem', coreMessaging.problem);
+      writer.field('Differentiator', coreMessaging.differentiator);
+    }
+
+    // Thesis and risks live on the form inputs; fall back to the generated copies when the form has none filled in
+    writer.heading('Thesis');
+    writer.list(undefined, firstFilledList(coreMessaging?.thesis, generatedContent?.thesis));
+
+    writer.heading('Risks');
+    writer.list(undefined, firstFilledList(coreMessaging?.risks, generatedContent?.risks));
+
+    this.addPageNumbers(pdf);
+    pdf.save(this.buildFileName(options.versionName));
+  }
+
+  private describeSource(provenance: GenerationProvenance): string {
+    switch (provenance.source) {
+      case 'rag-fallback':
+      case 'app-fallback':
+        return 'Fallback template copy (generation failed)';
+      default: {
+        const model = provenance.model ? ` with ${provenance.provider ? `${provenance.provider}/` : ''}${provenance.model}` : '';
+        const retrieval = provenance.degraded ? ', built-in example only' : '';
+        return `${provenance.cacheHit ? 'Cached' : 'Live'} generation${model}${retrieval}`;
+      }
+    }
+  }
+
+  // Scale the snapshot to the page width and slice it across pages if it is taller than one page
+  private addCanvasImage(pdf: jsPDF, snapshot: HTMLCanvasElement): void {
+    const printableWidth = PAGE.width - PAGE.margin * 2;
+    const printableHeight = PAGE.height - PAGE.margin * 2;
+    const mmPerPixel = printableWidth / snapshot.width;
+    const pixelsPerPage = Math.floor(printableHeight / mmPerPixel);
+
+    for (let offset = 0; offset < snapshot.height; offset += pixelsPerPage) {
+      const sliceHeight = Math.min(pixelsPerPage, snapshot.height - offset);
+      const slice = document.createElement('canvas');
+      slice.width = snapshot.width;
+      slice.height = sliceHeight;
+
+      const context = slice.getContext('2d');
+      if (!context) throw new Error('Canvas 2D context unavailable');
+      context.drawImage(snapshot, 0, offset, snapshot.width, sliceHeight, 0, 0, snapshot.width, sliceHeight);
+
+      if (offset > 0) pdf.addPage();
+      pdf.addImage(
+        slice.toDataURL('image/png'),
+        'PNG',
+        PAGE.margin,
+        PAGE.margin,
+        printableWidth,
+        sliceHeight * mmPerPixel
+      );
+    }
+  }
+
+  private addPageNumbers(pdf: jsPDF): void {
+    const pageCount = pdf.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      pdf.setPage(page);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(8);
+      pdf.setTextColor(120);
+      pdf.text(`Page ${page} of ${pageCount}`, PAGE.width - PAGE.margin, PAGE.height - 8, { align: 'right' });
+    }
+  }
+
+  private buildFileName(versionName?: string): string {
+    const slug = (versionName || 'positioning')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    const date = new Date().toISOString().slice(0, 10);
+    return `${slug || 'positioning'}-${date}.pdf`;
+  }
+}
+
+// Flowing text layout with automatic page breaks
+class PdfTextWriter {
+  private pdf: jsPDF;
+  private cursorY = PAGE.margin;
+  private readonly maxWidth = PAGE.width - PAGE.margin * 2;
+
+  constructor(pdf: jsPDF) {
+    this.pdf = pdf;
+  }
+
+  title(text: string) {
+    this.write(text, { size: 18, style: 'bold', spacingAfter: 4 });
+  }
+
+  heading(text: string) {
+    this.cursorY += 4;
+    this.write(text, { size: 13, style: 'bold', spacingAfter: 2 });
+    this.pdf.setDrawColor(200);
+    this.pdf.line(PAGE.margin, this.cursorY - 1, PAGE.width - PAGE.margin, this.cursorY - 1);
+    this.cursorY += 2;
+  }
+
+  field(label: string, value?: string) {
+    this.write(label, { size: 9, style: 'bold', color: 90 });
+    this.write(value?.trim() || '—', { size: 11, spacingAfter: 3 });
+  }
+
+  list(label: string | undefined, items: string[]) {
+    if (label) this.write(label, { size: 9, style: 'bold', color: 90 });
+
+    const filled = items.filter(item => item && item.trim());
+    if (filled.length === 0) {
+      this.write('—', { size: 11, spacingAfter: 3 });
+      return;
+    }
+
+    filled.forEach(item => this.write(`•  ${item.trim()}`, { size: 11, spacingAfter: 1, indent: 2 }));
+    this.cursorY += 2;
+  }
+
+  private write(
+    text: string,
+    { size, style = 'normal', color = 30, spacingAfter = 0, indent = 0 }: {
+      size: number;
+      style?: 'normal' | 'bold';
+      color?: number;
+      spacingAfter?: number;
+      indent?: number;
+    }
+  ) {
+    this.pdf.setFont('helvetica', style);
+    this.pdf.setFontSize(size);
+    this.pdf.setTextColor(color);
+
+    const lineHeight = size * 0.45;
+    const lines: string[] = this.pdf.splitTextToSize(text, this.maxWidth - indent);
+
+    for (const line of lines) {
+      if (this.cursorY + lineHeight > PAGE.height - PAGE.margin) {
+        this.pdf.addPage();
+        this.cursorY = PAGE.margin;
+      }
+      this.cursorY += lineHeight;
+      this.pdf.text(line, PAGE.margin + indent, this.cursorY);
+    }
+
+    this.cursorY += spacingAfter;
+  }
+}
+
+// Export singleton instance
+export const exportService = new ExportService();
+export default exportService;
@@ -1,6 +1,11 @@
 // Removed OpenAI import - now using backend proxy
 import type { CoreMessaging, GeneratedContent } from '@/types';
 import { positioningExamples } from '@/data/positioningExamples';
+import {
+  GenerationValidationError,
+  parseStructuredContent,
+} from '@/lib/structuredOutput';
+import { renderPrompt, type RenderedPrompt } from '@/lib/promptRegistry';
 
 // Knowledge Graph Types
 interface KnowledgeNode {
@@ -375,8 +380,9 @@ class GraphRAGService {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            prompt,
-            context
+            prompt: prompt.text,
+            context,
+            response_format: 'json'
           })
         });
 
@@ -384,7 +390,7 @@ class GraphRAGService {
           const data = await response.json();
           if (data.success) {
             console.log('Generated with ChatGPT via secure backend');
-            return this.parseGeneratedContent(data.content, coreMessaging);
+            return { ...this.parseGeneratedContent(data.content, coreMessaging), prompt: prompt.ref };
           }
         }
 
@@ -393,6 +399,7 @@ class GraphRAGService {
         console.warn('Backend generation failed:', errorData);
         
       } catch (error) {
+        if (error instanceof GenerationValidationError) throw error;
         console.warn('Backend request failed:', error);
       }
 
@@ -401,78 +408,41 @@ class GraphRAGService {
       return this.createEnhancedContent(coreMessaging);
 
     } catch (error) {
+      if (error instanceof GenerationValidationError) throw error;
       console.error('Generation failed, using enhanced fallback:', error);
       return this.createEnhancedContent(coreMessaging);
     }
   }
 
-  private buildGraphRAGPrompt(coreMessaging: CoreMessaging, context: string): string {
+  private buildGraphRAGPrompt(coreMessaging: CoreMessaging, context: string): RenderedPrompt {
     const icpText = coreMessaging.icp && coreMessaging.icp.length > 0 
       ? `ICP: ${coreMessaging.icp.join(', ')}\n`
       : '';
 
-    return `Based on these successful positioning examples:
-
-${context}
-
-Create positioning for:
-Primary Anchor: ${coreMessaging.primaryAnchor.content} (${coreMessaging.primaryAnchor.type})
-Secondary Anchor: ${coreMessaging.secondaryAnchor.content} (${coreMessaging.secondaryAnchor.type})
-${icpText}Problem: ${coreMessaging.problem}
-Differentiator: ${coreMessaging.differentiator}
-
-POSITIONING RULES - CRITICAL:
-- DO NOT REWRITE - only lightly edit for grammar and flow
-- HEADLINE must include EXACT primary anchor text: "${coreMessaging.primaryAnchor.content}"
-- SUBHEADLINE must combine the actual problem and differentiator text with minimal changes
-- Use the user's EXACT phrases from problem: "${coreMessaging.problem.substring(0, 100)}..."
-- Use the user's EXACT phrases from differentiator: "${coreMessaging.differentiator.substring(0, 100)}..."
-- ONLY add connecting words, fix tense, improve grammar - do NOT add new concepts
-- NO generic positioning language: avoid "say goodbye", "transform", "unlock", etc.
-- Just make the user's content flow better grammatically
-
-Generate professional positioning copy:
-
-Format your response exactly like this:
-HEADLINE: [specific headline using primary anchor + ICP]
-SUBHEADLINE: [capture problem + differentiator in 1-2 sentences]
-OPPORTUNITY: [market opportunity statement referencing specific segments]`;
+    return renderPrompt('graph-positioning', {
+      context,
+      primaryAnchor: coreMessaging.primaryAnchor.content,
+      primaryAnchorType: coreMessaging.primaryAnchor.type,
+      secondaryAnchor: coreMessaging.secondaryAnchor.content,
+      secondaryAnchorType: coreMessaging.secondaryAnchor.type,
+      icpLine: icpText,
+      problem: coreMessaging.problem,
+      differentiator: coreMessaging.differentiator,
+      problemExcerpt: coreMessaging.problem.substring(0, 100),
+      differentiatorExcerpt: coreMessaging.differentiator.substring(0, 100)
+    });
   }
 
   private parseGeneratedContent(generatedText: string, coreMessaging: CoreMessaging): GeneratedContent {
     console.log('Raw ChatGPT Response:', generatedText);
-    
-    const lines = generatedText.split('\n').filter(line => line.trim());
-    
-    let headline = '';
-    let subheadline = '';
-    let opportunity = '';
-
-    for (const line of lines) {
-      if (line.startsWith('HEADLINE:')) {
-        headline = line.replace('HEADLINE:', '').trim();
-      } else if (line.startsWith('SUBHEADLINE:')) {
-        subheadline = line.replace('SUBHEADLINE:', '').trim();
-      } else if (line.startsWith('OPPORTUNITY:')) {
-        opportunity = line.replace('OPPORTUNITY:', '').trim();
-        // Handle multi-line opportunity statements
-        const currentIndex = lines.indexOf(line);
-        let nextIndex = currentIndex + 1;
-        while (nextIndex < lines.length && !lines[nextIndex].includes(':')) {
-          opportunity += ' ' + lines[nextIndex].trim();
-          nextIndex++;
-        }
-      }
-    }
 
-    console.log('Parsed sections:', { headline, subheadline, opportunity });
+    const parsed = parseStructuredContent(generatedText, coreMessaging);
+    console.log('Parsed sections:', parsed);
 
     return {
-      headline: headline || this.createSmartHeadline(coreMessaging),
-      subheadline: subheadline || this.createSmartSubheadline(coreMessaging),
+      ...parsed,
       thesis: this.enhanceThesis(coreMessaging.thesis), // Keep user input
-      risks: this.enhanceRisks(coreMessaging.risks), // Keep user input
-      opportunity: opportunity || this.createSmartOpportunity(coreMessaging)
+      risks: this.enhanceRisks(coreMessaging.risks) // Keep user input
     };
   }
 
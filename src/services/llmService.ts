@@ -1,5 +1,6 @@
-import { simpleRAGService } from './simpleRAGService';
-import type { CoreMessaging, GeneratedContent } from '@/types';
+import { simpleRAGService, type GenerationOptions, type RefinementResult } from './simpleRAGService';
+import type { CoreMessaging, ExampleSearchResult, GeneratedContent, LibraryExample, RefinementTurn } from '@/types';
+import { DEFAULT_GENERATION_SETTINGS } from '@/data/generationPresets';
 
 class LLMService {
   async initialize() {
@@ -7,10 +8,29 @@ class LLMService {
     return simpleRAGService.initialize();
   }
 
-  async generatePositioning(coreMessaging: CoreMessaging): Promise<GeneratedContent> {
+  async generatePositioning(coreMessaging: CoreMessaging, options?: GenerationOptions): Promise<GeneratedContent> {
     // Use SimpleRAG service with user-controlled settings
-    const settings = coreMessaging.generationSettings || { temperature: 0.3, top_p: 0.8 };
-    return simpleRAGService.generatePositioning(coreMessaging, settings);
+    const settings = coreMessaging.generationSettings || DEFAULT_GENERATION_SETTINGS;
+    return simpleRAGService.generatePositioning(coreMessaging, settings, options);
+  }
+
+  async refinePositioning(
+    coreMessaging: CoreMessaging,
+    current: GeneratedContent,
+    instruction: string,
+    history?: RefinementTurn[],
+    options?: GenerationOptions
+  ): Promise<RefinementResult> {
+    const settings = coreMessaging.generationSettings || DEFAULT_GENERATION_SETTINGS;
+    return simpleRAGService.refinePositioning(coreMessaging, current, instruction, history, settings, options);
+  }
+
+  async listExamples(): Promise<LibraryExample[]> {
+    return simpleRAGService.listExamples();
+  }
+
+  async searchExamples(text: string): Promise<ExampleSearchResult> {
+    return simpleRAGService.searchExamples(text);
   }
 
   getInitializationStatus() {
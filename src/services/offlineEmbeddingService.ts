@@ -0,0 +1,70 @@
+import { OFFLINE_EMBEDDING_DIMENSIONS, OFFLINE_EMBEDDING_MODEL } from '@/lib/offlineEmbedding';
+import type { EmbeddingWorkerRequest, EmbeddingWorkerResponse } from '@/workers/embeddingWorker';
+
+interface PendingRequest {
+  resolve: (embedding: number[]) => void;
+  reject: (error: Error) => void;
+}
+
+// Browser side of the offline embedding model: requests go to a Web Worker so loading and running the
+// model never blocks the UI. The worker is started on first use.
+class OfflineEmbeddingService {
+  readonly model = OFFLINE_EMBEDDING_MODEL;
+  readonly dimensions = OFFLINE_EMBEDDING_DIMENSIONS;
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+
+  isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  embed(text: string): Promise<number[]> {
+    if (!this.isSupported()) {
+      return Promise.reject(new Error('Offline embeddings need Web Worker support'));
+    }
+
+    const worker = this.getWorker();
+    const request: EmbeddingWorkerRequest = {
+      id: this.nextId++,
+      text,
+      options: { localModelPath: import.meta.env.VITE_OFFLINE_MODEL_PATH || undefined }
+    };
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const worker = new Worker(new URL('../workers/embeddingWorker.ts', import.meta.url), { type: 'module' });
+
+      worker.onmessage = (event: MessageEvent<EmbeddingWorkerResponse>) => {
+        const response = event.data;
+        const request = this.pending.get(response.id);
+        if (!request) return;
+
+        this.pending.delete(response.id);
+        if ('error' in response) request.reject(new Error(`Offline embedding failed: ${response.error}`));
+        else request.resolve(response.embedding);
+      };
+
+      // A worker that fails to start or crashes fails everything in flight; the next call starts a new one
+      worker.onerror = (event) => {
+        event.preventDefault();
+        this.pending.forEach(request => request.reject(new Error(`Offline embedding worker failed: ${event.message}`)));
+        this.pending.clear();
+        worker.terminate();
+        if (this.worker === worker) this.worker = null;
+      };
+
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+}
+
+// Export singleton instance
+export const offlineEmbeddingService = new OfflineEmbeddingService();
+export default offlineEmbeddingService;
@@ -1,53 +1,206 @@
 // Simple RAG Service - replaces the complex GraphRAG implementation
-import { createClient } from '@supabase/supabase-js';
-import type { CoreMessaging, GeneratedContent, GenerationSettings } from '@/types';
+import type {
+  CoreMessaging,
+  ExampleRef,
+  ExampleSearchResult,
+  ExampleSelection,
+  GeneratedContent,
+  GeneratedCopy,
+  GeneratedSection,
+  GenerationProvenance,
+  GenerationSettings,
+  GenerationTrace,
+  LibraryExample,
+  LockedSections,
+  PromptRef,
+  RefinementTurn,
+  RetrievalBoosts,
+  RetrievalFilters,
+  RetrievalMatch,
+  RetrievalMode,
+  ToneSelector,
+} from '@/types';
+import {
+  GenerationValidationError,
+  buildGeneratedContent,
+  extractPartialCopy,
+  parseStructuredVariants,
+} from '@/lib/structuredOutput';
+import { formatPromptRef, getPromptTemplate, renderPrompt, type RenderedPrompt } from '@/lib/promptRegistry';
+import { buildGenerationCacheKeyMaterial } from '@/lib/cacheKey';
+import { rankVariants } from '@/lib/variantRanking';
+import { checkHighlightMappings } from '@/lib/highlightMapping';
+import {
+  createBm25Index,
+  DEFAULT_DIVERSITY,
+  DEFAULT_EXAMPLE_COUNT,
+  MAX_EXAMPLE_COUNT,
+  matchesRetrievalFilters,
+  METADATA_BOOST_WEIGHT,
+  normalizeIndustry,
+  rankHybridCandidates,
+  RETRIEVAL_CANDIDATE_MULTIPLIER,
+  selectDiverse,
+  VECTOR_MATCH_THRESHOLD,
+  type Bm25Index,
+} from '@/lib/hybridRetrieval';
+import { DEFAULT_GENERATION_SETTINGS } from '@/data/generationPresets';
+import { positioningExamples as builtInExamples } from '@/data/positioningExamples';
+import { createVectorStore, type ExampleRow, type VectorStore } from './vectorStore';
+import { offlineEmbeddingService } from './offlineEmbeddingService';
 // Use Web Crypto API for browser compatibility
 
-// Configure Supabase
-const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
-const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
-
-interface PositioningExample {
-  id: number;
-  company: string;
-  tagline: string;
-  anchor_type: string;
-  primary_anchor: string;
-  problem: string;
-  differentiator: string;
-  industry: string;
-  effectiveness: string;
-  icp: string[];
-  tags: string[];
-  tone: string;
-  structure: string;
-  secondary_anchors: Record<string, any>;
+// Example row as used for retrieval: similarity from the vector search (0 when only lexical matched)
+interface PositioningExample extends ExampleRow {
   similarity: number;
+  score?: number; // find_similar_examples: similarity plus metadata boosts
+  match?: RetrievalMatch;
+}
+
+// Generation cache entries expire after a week, like the generation_cache column default
+const GENERATION_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Most hits a library search returns
+const LIBRARY_SEARCH_LIMIT = 20;
+
+// Attempts before a schema-invalid completion is reported to the caller
+const MAX_GENERATION_ATTEMPTS = 2;
+
+// Template in src/data/promptTemplates.ts used for RAG generation
+const RAG_PROMPT_ID = 'rag-positioning';
+
+// Candidates requested per generation; the canvas pages through them
+const HEADLINE_VARIANT_COUNT = 3;
+
+// Follow-up turn template for conversational refinement
+const REFINEMENT_PROMPT_ID = 'rag-refinement';
+
+const DEFAULT_TONE: ToneSelector = 'professional';
+
+// How each tone is described to the model
+const TONE_GUIDANCE: Record<ToneSelector, string> = {
+  professional: 'confident and polished, suitable for executives and buyers; no slang',
+  casual: 'friendly and conversational, plain words and short sentences, like talking to a small-business owner',
+  technical: 'precise and specific for developers and engineers; name concrete capabilities, avoid marketing fluff'
+};
+
+export interface GenerationOptions {
+  // Providing onPartial switches to the streaming endpoint and reports sections as they arrive
+  onPartial?: (partial: Partial<GeneratedContent>) => void;
+  signal?: AbortSignal;
+  // Skip the cache lookup and generate fresh; the new result still replaces the cached entry
+  bypassCache?: boolean;
+  // Sections to keep word for word; only the others are regenerated
+  lockedSections?: LockedSections;
+  // Receives the inspector record once the call settles, including when it fails
+  onTrace?: (trace: GenerationTrace) => void;
+  // The version's pinned and excluded examples
+  exampleSelection?: ExampleSelection;
+}
+
+export interface RefinementResult {
+  content: GeneratedContent;
+  turn: RefinementTurn;
+}
+
+const GENERATED_SECTIONS: GeneratedSection[] = ['headline', 'subheadline', 'opportunity'];
+
+// Earlier turns of a multi-turn exchange, sent to the backend as `history`
+interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// One request to the completion endpoints
+interface CompletionInput {
+  prompt: string;
+  history?: ChatTurn[];
+  variantCount: number;
+}
+
+// Completion text plus what the backend reports having used
+interface CompletionOutput {
+  content: string;
+  provider?: string;
+  model?: string;
+}
+
+// Parsed completion plus the backend's provider/model and what it took to get there
+interface GenerationOutput {
+  content: GeneratedContent;
+  provider?: string;
+  model?: string;
+  rawOutput: string;
+  attempts: number;
+  issues: string[]; // Validation issues from attempts that were retried
+}
+
+interface RetrievalQuery {
+  text: string;
+  limit: number;
+  diversity: number;
+  pinnedIds: number[];
+  excludedIds: number[];
+  anchor?: string;
+  filters?: RetrievalFilters;
+  boosts?: RetrievalBoosts;
+}
+
+// Degraded when neither retriever was available and the built-in example stood in
+interface RetrievalResult {
+  examples: PositioningExample[];
+  degraded: boolean;
+  mode: RetrievalMode;
+}
+
+interface LexicalCorpus {
+  examples: Map<number, PositioningExample>;
+  index: Bm25Index;
+}
+
+// LLM section of the backend /health response, used to resolve default provider and model
+interface BackendLLMStatus {
+  mockMode: boolean;
+  default: string;
+  providers: Array<{ name: string; completionModel: string; embeddingModel: string }>;
+}
+
+// Query embedding and the model that produced it; vector search only compares it with rows from that model
+interface QueryEmbedding {
+  embedding: number[];
+  model: string;
 }
 
 class SimpleRAGService {
-  private supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+  // Null when no vector store is configured; retrieval and caching then run in fallback mode
+  private store: VectorStore | null;
   private backendUrl: string;
   private embeddingCache = new Map<string, number[]>();
+  private backendLLMStatus: Promise<BackendLLMStatus | null> | null = null;
+  private lexicalCorpus: Promise<LexicalCorpus | null> | null = null;
   private isInitialized = false;
 
   constructor() {
     this.backendUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+    this.store = createVectorStore(this.backendUrl);
   }
 
   async initialize() {
     if (this.isInitialized) return;
+
+    if (!this.store) {
+      console.warn('No vector store configured, using fallback examples and no caching');
+      this.isInitialized = true;
+      return;
+    }
     
     try {
-      // Test Supabase connection
-      const { count, error } = await this.supabase
-        .from('positioning_examples_v2')
-        .select('*', { count: 'exact', head: true });
-
-      if (error) {
-        console.warn('Supabase not available, using fallback mode');
-      } else {
-        console.log(`Connected to Supabase: ${count || 0} examples available`);
+      // Test the store connection
+      try {
+        const count = await this.store.countExamples();
+        console.log(`Connected to ${this.store.name} vector store: ${count} examples available`);
+      } catch {
+        console.warn(`${this.store.name} vector store not available, using fallback mode`);
       }
 
       this.isInitialized = true;
@@ -61,111 +214,514 @@ class SimpleRAGService {
   // Main RAG generation method
   async generatePositioning(
     coreMessaging: CoreMessaging, 
-    settings: GenerationSettings = { temperature: 0.3, top_p: 0.8 }
+    settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS,
+    options: GenerationOptions = {}
   ): Promise<GeneratedContent> {
     await this.initialize();
 
+    options = this.applyLockedSections(options);
+    const lockedSections = options.lockedSections || {};
+    let prompt: RenderedPrompt | undefined;
+    let examples: ExampleRef[] = [];
+
     try {
+      // Pin the prompt version up front: it is part of the cache key and recorded on the result
+      const template = getPromptTemplate(RAG_PROMPT_ID);
+      const promptRef: PromptRef = { id: template.id, version: template.version };
+
       // 1. Check cache first
-      const cacheKey = await this.generateCacheKey(coreMessaging, settings);
-      const cached = await this.getCachedResult(cacheKey);
+      const cacheKey = await this.generateCacheKey(coreMessaging, settings, promptRef, template.template, lockedSections, options.exampleSelection);
+      const cached = options.bypassCache ? null : await this.getCachedResult(cacheKey);
       if (cached) {
         console.log('Using cached result');
-        return cached;
+        const result: GeneratedContent = {
+          ...cached,
+          provenance: { examples: [], ...cached.provenance, source: 'cache', cacheHit: true }
+        };
+        options.onPartial?.(result);
+        this.reportTrace(options, coreMessaging, {
+          kind: 'generation',
+          examples: result.provenance?.examples || [],
+          parse: { ok: true, attempts: 0, issues: [], variantCount: result.variants?.length || 1 },
+          content: result
+        });
+        return result;
       }
 
       // 2. Find similar examples via vector search
-      const userText = this.buildUserText(coreMessaging);
-      const similarExamples = await this.findSimilarExamples(userText, 3);
+      const retrieval = await this.findSimilarExamples(this.buildRetrievalQuery(coreMessaging, options.exampleSelection));
+      examples = this.toExampleRefs(retrieval.examples);
 
       // 3. Generate with context and temperature/top_p controls
-      const context = this.buildContext(similarExamples);
-      const prompt = this.buildPrompt(coreMessaging, context);
+      const context = this.buildContext(retrieval.examples, options.exampleSelection);
+      prompt = this.buildPrompt(coreMessaging, context, promptRef.version, lockedSections);
+      console.log(`Using prompt ${formatPromptRef(prompt.ref)}`);
       
-      const result = await this.generateWithSettings(prompt, settings, coreMessaging);
+      const generated = await this.generateWithSettings(
+        { prompt: prompt.text, variantCount: HEADLINE_VARIANT_COUNT },
+        settings,
+        coreMessaging,
+        options
+      );
+      const result: GeneratedContent = {
+        ...generated.content,
+        prompt: prompt.ref,
+        provenance: this.buildLiveProvenance(generated, retrieval, settings)
+      };
 
       // 4. Cache result
       await this.cacheResult(cacheKey, result);
-      
+
+      this.reportTrace(options, coreMessaging, {
+        kind: 'generation',
+        prompt,
+        examples,
+        rawOutput: generated.rawOutput,
+        parse: { ok: true, attempts: generated.attempts, issues: generated.issues, variantCount: result.variants?.length || 1 },
+        content: result
+      });
       return result;
 
     } catch (error) {
+      // Invalid model output is surfaced, never papered over with placeholder copy
+      if (error instanceof GenerationValidationError) {
+        this.reportValidationFailure(options, coreMessaging, 'generation', prompt, examples, error);
+        throw error;
+      }
+      // Cancellation is the caller's decision, not a failure to recover from
+      if (options.signal?.aborted) throw error;
+
       console.error('RAG generation failed, using fallback:', error);
-      return this.createFallbackContent(coreMessaging);
+      const fallback: GeneratedContent = {
+        ...this.createFallbackContent(coreMessaging),
+        ...lockedSections,
+        provenance: { source: 'rag-fallback', cacheHit: false, settings, examples: [] }
+      };
+      this.reportTrace(options, coreMessaging, {
+        kind: 'generation',
+        prompt,
+        examples,
+        parse: { ok: false, attempts: 0, issues: [error instanceof Error ? error.message : String(error)], variantCount: 0 },
+        content: fallback
+      });
+      return fallback;
     }
   }
 
-  // Vector similarity search (replaces graph traversal)
-  private async findSimilarExamples(userText: string, limit: number): Promise<PositioningExample[]> {
+  // Revise the current copy from a natural-language instruction ("make it punchier").
+  // Sent as a multi-turn exchange: the original request, the copy it produced, then each refinement since.
+  // Failures propagate; the current copy is never swapped for fallback text.
+  async refinePositioning(
+    coreMessaging: CoreMessaging,
+    current: GeneratedContent,
+    instruction: string,
+    history: RefinementTurn[] = [],
+    settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS,
+    options: GenerationOptions = {}
+  ): Promise<RefinementResult> {
+    await this.initialize();
+
+    options = this.applyLockedSections(options);
+    const lockedSections = options.lockedSections || {};
+    const previous = this.pickCopy(current);
+    const chain = this.currentRefinementChain(history, previous);
+
+    // Opening exchange: the generation prompt (same retrieval) and the copy it settled on
+    const retrieval = await this.findSimilarExamples(this.buildRetrievalQuery(coreMessaging, options.exampleSelection));
+    const generationPrompt = this.buildPrompt(
+      coreMessaging,
+      this.buildContext(retrieval.examples, options.exampleSelection),
+      undefined,
+      lockedSections
+    );
+    const conversation: ChatTurn[] = [
+      { role: 'user', content: generationPrompt.text },
+      { role: 'assistant', content: JSON.stringify(chain[0]?.previous || previous) }
+    ];
+    chain.forEach(turn => {
+      conversation.push(
+        { role: 'user', content: this.buildRefinementPrompt(coreMessaging, turn.instruction, lockedSections).text },
+        { role: 'assistant', content: JSON.stringify(turn.revised) }
+      );
+    });
+
+    const prompt = this.buildRefinementPrompt(coreMessaging, instruction, lockedSections);
+    console.log(`Refining with ${formatPromptRef(prompt.ref)} after ${chain.length} earlier refinement(s)`);
+
+    const examples = this.toExampleRefs(retrieval.examples);
+    let generated: GenerationOutput;
+    try {
+      generated = await this.generateWithSettings(
+        { prompt: prompt.text, history: conversation, variantCount: 1 },
+        settings,
+        coreMessaging,
+        options
+      );
+    } catch (error) {
+      if (error instanceof GenerationValidationError) {
+        this.reportValidationFailure(options, coreMessaging, 'refinement', prompt, examples, error);
+      }
+      throw error;
+    }
+    const content: GeneratedContent = {
+      ...generated.content,
+      prompt: prompt.ref,
+      provenance: this.buildLiveProvenance(generated, retrieval, settings)
+    };
+
+    this.reportTrace(options, coreMessaging, {
+      kind: 'refinement',
+      prompt,
+      examples,
+      rawOutput: generated.rawOutput,
+      parse: { ok: true, attempts: generated.attempts, issues: generated.issues, variantCount: 1 },
+      content
+    });
+
+    return {
+      content,
+      turn: { instruction, previous, revised: this.pickCopy(content), createdAt: new Date() }
+    };
+  }
+
+  // Trailing turns that led to the current copy; older ones belong to an earlier generation
+  private currentRefinementChain(history: RefinementTurn[], current: GeneratedCopy): RefinementTurn[] {
+    const chain: RefinementTurn[] = [];
+    let expected = current;
+
+    for (let i = history.length - 1; i >= 0; i--) {
+      const turn = history[i];
+      const matches = GENERATED_SECTIONS.every(section => turn.revised[section] === expected[section]);
+      if (!matches) break;
+
+      chain.unshift(turn);
+      expected = turn.previous;
+    }
+
+    return chain;
+  }
+
+  private pickCopy(content: GeneratedCopy): GeneratedCopy {
+    return { headline: content.headline, subheadline: content.subheadline, opportunity: content.opportunity };
+  }
+
+  // Normalize locks and make streamed partials show the locked text for those sections
+  private applyLockedSections(options: GenerationOptions): GenerationOptions {
+    const lockedSections = this.normalizeLockedSections(options.lockedSections);
+    const { onPartial } = options;
+
+    return {
+      ...options,
+      lockedSections,
+      onPartial: onPartial && (partial => onPartial({ ...partial, ...lockedSections }))
+    };
+  }
+
+  // The form's retrieval settings, clamped; the selected tone is boosted unless the form sets a tone boost
+  private buildRetrievalQuery(coreMessaging: CoreMessaging, selection?: ExampleSelection): RetrievalQuery {
+    const retrieval = coreMessaging.retrieval || {};
+    return {
+      text: this.buildUserText(coreMessaging),
+      limit: Math.min(Math.max(Math.round(retrieval.exampleCount ?? DEFAULT_EXAMPLE_COUNT), 1), MAX_EXAMPLE_COUNT),
+      diversity: Math.min(Math.max(retrieval.diversity ?? DEFAULT_DIVERSITY, 0), 1),
+      pinnedIds: selection?.pinned.map(example => example.id) || [],
+      excludedIds: selection?.excluded.map(example => example.id) || [],
+      anchor: coreMessaging.primaryAnchor.content,
+      filters: retrieval.filters,
+      boosts: { tone: coreMessaging.tone || DEFAULT_TONE, ...retrieval.boosts }
+    };
+  }
+
+  // Hybrid retrieval: pgvector similarity and BM25 over the example text, fused with reciprocal rank fusion
+  // and reranked. Runs lexical-only when no query embedding can be produced.
+  // Metadata filters apply to both retrievers; boosts order the RPC candidates and the final rerank.
+  // The examples are then picked from the reranked pool with MMR so they do not all follow one pattern.
+  // Pinned examples always go in, ahead of the picks and regardless of filters; excluded ones never do.
+  private async findSimilarExamples(query: RetrievalQuery): Promise<RetrievalResult> {
+    const fallback: RetrievalResult = {
+      examples: this.getFallbackExamples().filter(example => !query.excludedIds.includes(example.id)),
+      degraded: true,
+      mode: 'fallback'
+    };
+
+    if (!this.store) {
+      return fallback;
+    }
+
+    const candidateCount = query.limit * RETRIEVAL_CANDIDATE_MULTIPLIER;
+    const [vectorHits, corpus] = await Promise.all([
+      this.findVectorMatches(query, candidateCount),
+      this.getLexicalCorpus()
+    ]);
+    if (!vectorHits && !corpus) return fallback;
+
+    const lexicalHits = corpus
+      ? corpus.index.search(query.text, corpus.index.size)
+        .filter(hit => {
+          const example = corpus.examples.get(hit.id);
+          return example && matchesRetrievalFilters(example, query.filters);
+        })
+        .slice(0, candidateCount)
+      : [];
+    console.log(`Found ${vectorHits?.length ?? 'no'} vector and ${lexicalHits.length} lexical candidates`);
+
+    const candidates = new Map<number, PositioningExample>();
+    vectorHits?.forEach(example => candidates.set(example.id, example));
+    lexicalHits.forEach(hit => {
+      const example = corpus?.examples.get(hit.id);
+      if (example && !candidates.has(hit.id)) candidates.set(hit.id, example);
+    });
+    query.excludedIds.forEach(id => candidates.delete(id));
+
+    const scored = rankHybridCandidates([...candidates.values()], vectorHits, corpus ? lexicalHits : null, query);
+    const matches = new Map(scored.map(({ example, match }) => [example.id, match]));
+    const ranked = scored
+      .filter(({ example }) => !query.pinnedIds.includes(example.id))
+      .map(({ example, match }) => ({ ...example, similarity: match.vector ?? 0, match }));
+
+    const pinned = (await this.loadExamples(query.pinnedIds, corpus))
+      .filter(example => !query.excludedIds.includes(example.id))
+      .map(example => {
+        const match = matches.get(example.id);
+        return {
+          ...example,
+          similarity: match?.vector ?? 0,
+          match: { vector: match?.vector, lexical: match?.lexical, fused: match?.fused || 0, score: 0, pinned: true }
+        };
+      });
+    const examples = selectDiverse(ranked, query.limit, query.diversity, example => example.match.score, pinned);
+
+    return { examples, degraded: false, mode: vectorHits && corpus ? 'hybrid' : vectorHits ? 'vector' : 'lexical' };
+  }
+
+  // Nearest examples by embedding; null when the embedding or the vector search is unavailable
+  private async findVectorMatches(query: RetrievalQuery, count: number): Promise<PositioningExample[] | null> {
+    if (!this.store) return null;
+
     try {
       // Get embedding for user input (with caching)
-      const embedding = await this.getEmbeddingCached(userText);
-      
-      // Vector search in Supabase
-      const { data, error } = await this.supabase.rpc('find_similar_examples', {
+      const { embedding, model } = await this.getEmbeddingCached(query.text);
+
+      const { filters = {}, boosts = {} } = query;
+      const listOrNull = <T>(values?: T[]) => (values && values.length > 0 ? values : null);
+      return await this.store.findSimilarExamples({
         query_embedding: embedding,
-        match_threshold: 0.6,
-        match_count: limit
+        query_embedding_model: model,
+        match_threshold: VECTOR_MATCH_THRESHOLD,
+        match_count: count,
+        filter_anchor_types: listOrNull(filters.anchorTypes),
+        filter_industries: listOrNull(filters.industries?.map(normalizeIndustry).filter(Boolean)),
+        filter_effectiveness: listOrNull(filters.effectiveness),
+        filter_tones: listOrNull(filters.tones),
+        boost_anchor_type: boosts.anchorType || null,
+        boost_industry: boosts.industry ? normalizeIndustry(boosts.industry) : null,
+        boost_effectiveness: boosts.effectiveness || null,
+        boost_tone: boosts.tone || null,
+        boost_weight: METADATA_BOOST_WEIGHT
       });
+    } catch (error) {
+      console.warn('Vector search unavailable, using lexical retrieval only:', error);
+      return null;
+    }
+  }
 
-      if (error) {
-        console.error('Vector search failed:', error);
-        return this.getFallbackExamples();
-      }
+  // BM25 index over tagline, problem, differentiator and ICP of every example; loaded once per session
+  private getLexicalCorpus(): Promise<LexicalCorpus | null> {
+    if (!this.lexicalCorpus && this.store) {
+      this.lexicalCorpus = this.store.listExamples()
+        .then(rows => {
+          const examples = new Map<number, PositioningExample>(
+            rows.map(example => [example.id, { ...example, similarity: 0 }])
+          );
+          const index = createBm25Index([...examples.values()].map(example => ({
+            id: example.id,
+            fields: [example.tagline, example.problem, example.differentiator, ...(example.icp || [])].filter(Boolean)
+          })));
+          return { examples, index };
+        })
+        .catch(error => {
+          console.error('Failed to load examples for lexical search:', error);
+          return null;
+        })
+        .then(corpus => {
+          // Retry on the next request instead of remembering an outage
+          if (!corpus) this.lexicalCorpus = null;
+          return corpus;
+        });
+    }
+    return this.lexicalCorpus || Promise.resolve(null);
+  }
 
-      console.log(`Found ${data?.length || 0} similar examples`);
-      return data || this.getFallbackExamples();
+  // Examples by id, in the order given; from the lexical corpus when loaded, otherwise from the store
+  private async loadExamples(ids: number[], corpus: LexicalCorpus | null): Promise<PositioningExample[]> {
+    if (ids.length === 0) return [];
+    if (corpus) {
+      return ids.map(id => corpus.examples.get(id)).filter((example): example is PositioningExample => !!example);
+    }
+    if (!this.store) return [];
 
+    try {
+      return (await this.store.listExamples(ids)).map(example => ({ ...example, similarity: 0 }));
     } catch (error) {
-      console.error('Similar examples search failed:', error);
-      return this.getFallbackExamples();
+      console.error('Failed to load pinned examples:', error);
+      return [];
     }
   }
 
-  // Embedding with caching (saves API costs)
-  private async getEmbeddingCached(text: string): Promise<number[]> {
+  // Every corpus example for users to browse and pin, plus the built-in examples whose company is not in
+  // the corpus. Built-ins get negative ids so they never collide with table rows.
+  async listExamples(): Promise<LibraryExample[]> {
+    await this.initialize();
+
+    const corpus = await this.getLexicalCorpus();
+    const library: LibraryExample[] = [...(corpus?.examples.values() || [])].map(example => ({
+      id: example.id,
+      company: example.company,
+      tagline: example.tagline,
+      anchorType: example.anchor_type,
+      primaryAnchor: example.primary_anchor,
+      industry: example.industry,
+      effectiveness: example.effectiveness,
+      problem: example.problem,
+      differentiator: example.differentiator,
+      icp: example.icp || [],
+      tone: example.tone,
+      structure: example.structure,
+      valueProps: example.metadata?.main_value_props || []
+    }));
+
+    const companies = new Set(library.map(example => example.company.toLowerCase()));
+    builtInExamples.forEach((example, index) => {
+      if (companies.has(example.company.toLowerCase())) return;
+      library.push({
+        id: -(index + 1),
+        company: example.company,
+        tagline: example.tagline,
+        anchorType: example.anchorType,
+        primaryAnchor: example.primaryAnchor,
+        industry: example.industry,
+        effectiveness: example.effectiveness,
+        problem: example.problem,
+        differentiator: example.differentiator,
+        icp: example.icp,
+        tone: example.tone,
+        structure: example.structure,
+        valueProps: [],
+        builtIn: true
+      });
+    });
+
+    return library.sort((a, b) => a.company.localeCompare(b.company));
+  }
+
+  // Library search by meaning through the embedding endpoint and find_similar_examples. Falls back to
+  // BM25 over the library text when the embedding or the vector search is unavailable; built-ins are only found that way.
+  async searchExamples(text: string): Promise<ExampleSearchResult> {
+    await this.initialize();
+
+    if (this.store) {
+      try {
+        const { embedding, model } = await this.getEmbeddingCached(text);
+        const matches = await this.store.findSimilarExamples({
+          query_embedding: embedding,
+          query_embedding_model: model,
+          match_threshold: VECTOR_MATCH_THRESHOLD,
+          match_count: LIBRARY_SEARCH_LIMIT
+        });
+
+        return {
+          mode: 'semantic',
+          matches: matches.map(example => ({ id: example.id, score: example.similarity }))
+        };
+      } catch (error) {
+        console.warn('Semantic library search unavailable, using lexical search:', error);
+      }
+    }
+
+    const index = createBm25Index((await this.listExamples()).map(example => ({
+      id: example.id,
+      fields: [
+        example.company,
+        example.tagline,
+        example.primaryAnchor,
+        example.problem,
+        example.differentiator,
+        ...example.icp,
+        ...example.valueProps
+      ].filter(Boolean)
+    })));
+    return { mode: 'lexical', matches: index.search(text, LIBRARY_SEARCH_LIMIT) };
+  }
+
+  // Embedding with caching (saves API costs). Caches are keyed by model, so switching the embedding model
+  // never reuses vectors from the old one.
+  // Throws when no embedding can be produced; a zero vector would silently match nothing
+  private async getEmbeddingCached(text: string): Promise<QueryEmbedding> {
     const textHash = await this.hashString(text.toLowerCase().trim());
-    
-    // Check memory cache first
-    if (this.embeddingCache.has(textHash)) {
-      return this.embeddingCache.get(textHash)!;
+    // Unknown while the backend is unreachable; the caches are then skipped
+    const expectedModel = await this.resolveEmbeddingModel();
+
+    if (expectedModel) {
+      // Check memory cache first
+      const cached = this.embeddingCache.get(`${expectedModel}:${textHash}`);
+      if (cached) {
+        return { embedding: cached, model: expectedModel };
+      }
+
+      // Check the store's cache
+      if (this.store) {
+        try {
+          const stored = await this.store.getCachedEmbedding(textHash, expectedModel);
+          if (stored) {
+            this.embeddingCache.set(`${expectedModel}:${textHash}`, stored);
+            return { embedding: stored, model: expectedModel };
+          }
+        } catch (error) {
+          console.warn('Embedding cache unavailable:', error);
+        }
+      }
     }
 
+    // Generate new embedding via backend, or with the in-browser model when the backend is unreachable
+    let generated: QueryEmbedding;
     try {
-      // Check database cache
-      const { data } = await this.supabase
-        .from('embedding_cache')
-        .select('embedding')
-        .eq('text_hash', textHash)
-        .single();
-
-      if (data) {
-        this.embeddingCache.set(textHash, data.embedding);
-        return data.embedding;
-      }
+      generated = await this.generateEmbedding(text);
+    } catch (error) {
+      return this.getOfflineEmbedding(text, textHash, error);
+    }
 
-      // Generate new embedding via backend
-      const embedding = await this.generateEmbedding(text);
-      
-      // Cache in database
-      await this.supabase.from('embedding_cache').insert({
-        text: text,
-        text_hash: textHash,
-        embedding: embedding
-      });
+    // Cache in the store
+    if (this.store) {
+      await this.store.cacheEmbedding(text, textHash, generated.embedding, generated.model)
+        .catch(error => console.warn('Failed to cache embedding:', error));
+    }
+
+    this.embeddingCache.set(`${generated.model}:${textHash}`, generated.embedding);
+    return generated;
+  }
 
-      this.embeddingCache.set(textHash, embedding);
-      return embedding;
+  // Embedding from the offline model, which searches the corpus's embedding_local column instead.
+  // Cached in memory only: the store is usually unreachable along with the backend.
+  private async getOfflineEmbedding(text: string, textHash: string, backendError: unknown): Promise<QueryEmbedding> {
+    const model = offlineEmbeddingService.model;
+    const cached = this.embeddingCache.get(`${model}:${textHash}`);
+    if (cached) {
+      return { embedding: cached, model };
+    }
 
+    try {
+      const embedding = await offlineEmbeddingService.embed(text);
+      console.warn(`Backend embedding unavailable, used the offline model (${model})`);
+      this.embeddingCache.set(`${model}:${textHash}`, embedding);
+      return { embedding, model };
     } catch (error) {
-      console.error('Embedding generation failed:', error);
-      // Return zero vector as fallback
-      return new Array(1536).fill(0);
+      console.error('Offline embedding failed:', error);
+      throw backendError;
     }
   }
 
   // Generate embedding via backend API
-  private async generateEmbedding(text: string): Promise<number[]> {
+  private async generateEmbedding(text: string): Promise<QueryEmbedding> {
     try {
       const response = await fetch(`${this.backendUrl}/api/generate-embedding`, {
         method: 'POST',
@@ -178,7 +734,7 @@ class SimpleRAGService {
       }
 
       const data = await response.json();
-      return data.embedding;
+      return { embedding: data.embedding, model: data.model };
 
     } catch (error) {
       console.error('Backend embedding request failed:', error);
@@ -186,18 +742,53 @@ class SimpleRAGService {
     }
   }
 
-  // Generate with temperature/top_p controls
-  private async generateWithSettings(prompt: string, settings: GenerationSettings, coreMessaging?: CoreMessaging): Promise<GeneratedContent> {
+  // Generate with temperature/top_p controls, retrying when the output fails schema validation
+  private async generateWithSettings(
+    request: CompletionInput,
+    settings: GenerationSettings,
+    coreMessaging?: CoreMessaging,
+    options: GenerationOptions = {}
+  ): Promise<GenerationOutput> {
+    let lastValidationError: GenerationValidationError | null = null;
+    const issues: string[] = [];
+
+    for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+      const { content, provider, model } = options.onPartial
+        ? await this.streamCompletion(request, settings, options.onPartial, options.signal)
+        : await this.requestCompletion(request, settings, options.signal);
+
+      try {
+        return {
+          content: this.parseResponse(content, coreMessaging, options.lockedSections),
+          provider,
+          model,
+          rawOutput: content,
+          attempts: attempt,
+          issues
+        };
+      } catch (error) {
+        if (!(error instanceof GenerationValidationError)) throw error;
+        console.warn(`Generated content failed validation (attempt ${attempt}/${MAX_GENERATION_ATTEMPTS}):`, error.issues);
+        issues.push(...error.issues.map(issue => `Attempt ${attempt}: ${issue}`));
+        lastValidationError = error;
+      }
+    }
+
+    throw new GenerationValidationError(
+      lastValidationError?.issues || [],
+      lastValidationError?.rawContent || '',
+      MAX_GENERATION_ATTEMPTS
+    );
+  }
+
+  // Request a schema-constrained completion from the backend
+  private async requestCompletion(request: CompletionInput, settings: GenerationSettings, signal?: AbortSignal): Promise<CompletionOutput> {
     try {
       const response = await fetch(`${this.backendUrl}/api/generate-positioning`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          prompt,
-          temperature: settings.temperature,
-          top_p: settings.top_p,
-          max_tokens: 800
-        })
+        body: JSON.stringify(this.buildCompletionBody(request, settings)),
+        signal
       });
 
       if (!response.ok) {
@@ -206,8 +797,7 @@ class SimpleRAGService {
 
       const data = await response.json();
       if (data.success) {
-        console.log('Generated with controlled settings:', settings);
-        return this.parseResponse(data.content, coreMessaging);
+        return { content: data.content, provider: data.provider, model: data.model };
       }
 
       throw new Error('Backend returned unsuccessful response');
@@ -218,6 +808,90 @@ class SimpleRAGService {
     }
   }
 
+  // Stream a completion over Server-Sent Events, reporting parsed sections as they arrive
+  private async streamCompletion(
+    request: CompletionInput,
+    settings: GenerationSettings,
+    onPartial: (partial: Partial<GeneratedContent>) => void,
+    signal?: AbortSignal
+  ): Promise<CompletionOutput> {
+    const response = await fetch(`${this.backendUrl}/api/generate-positioning/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.buildCompletionBody(request, settings)),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Streaming generation failed: ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let streamedText = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const rawEvent of events) {
+        const { event, data } = this.parseServerEvent(rawEvent);
+        if (!data) continue;
+
+        if (event === 'delta') {
+          streamedText += data.content || '';
+          onPartial(extractPartialCopy(streamedText));
+        } else if (event === 'done') {
+          console.log('Streamed with controlled settings:', settings);
+          return { content: data.content || '', provider: data.provider, model: data.model };
+        } else if (event === 'error') {
+          throw new Error(data.error || 'Streaming generation failed');
+        }
+      }
+    }
+
+    throw new Error('Stream ended before generation completed');
+  }
+
+  // Parse one `event: ...\ndata: ...` block
+  private parseServerEvent(rawEvent: string): {
+    event: string;
+    data: { content?: string; error?: string; provider?: string; model?: string } | null;
+  } {
+    let event = 'message';
+    let data = '';
+
+    for (const line of rawEvent.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data += line.slice(5).trim();
+    }
+
+    try {
+      return { event, data: data ? JSON.parse(data) : null };
+    } catch {
+      return { event, data: null };
+    }
+  }
+
+  private buildCompletionBody(request: CompletionInput, settings: GenerationSettings) {
+    return {
+      prompt: request.prompt,
+      history: request.history,
+      temperature: settings.temperature,
+      top_p: settings.top_p,
+      max_tokens: 800,
+      response_format: 'json',
+      variant_count: request.variantCount,
+      provider: settings.provider || import.meta.env.VITE_LLM_PROVIDER || undefined,
+      model: settings.model
+    };
+  }
+
   // Build user text for embedding
   private buildUserText(coreMessaging: CoreMessaging): string {
     return [
@@ -230,258 +904,162 @@ class SimpleRAGService {
   }
 
   // Build context from similar examples
-  private buildContext(examples: PositioningExample[]): string {
-    if (!examples.length) return '';
-
-    return examples.map(example => 
+  // Excluded companies are named so the model avoids echoing them even from its own knowledge
+  private buildContext(examples: PositioningExample[], selection?: ExampleSelection): string {
+    const blocks = examples.map(example => 
       `${example.company} (${example.anchor_type}): "${example.tagline}"\n` +
+      (example.match?.pinned ? 'Pinned by the user as a model to emulate\n' : '') +
       `ICP: ${example.icp.join(', ')}\n` +
       `Problem: ${example.problem}\n` +
       `Solution: ${example.differentiator}\n` +
+      `Tone: ${example.tone}\n` +
       `Structure: ${example.structure}`
-    ).join('\n\n');
+    );
+
+    if (selection?.excluded.length) {
+      blocks.push(`Do not echo the positioning of: ${selection.excluded.map(example => example.company).join(', ')}`);
+    }
+    return blocks.join('\n\n');
   }
 
-  // Build enhanced prompt with context
-  private buildPrompt(coreMessaging: CoreMessaging, context: string): string {
+  // Build enhanced prompt with context from the versioned template
+  private buildPrompt(
+    coreMessaging: CoreMessaging,
+    context: string,
+    version?: number,
+    lockedSections: LockedSections = {}
+  ): RenderedPrompt {
     const icpText = coreMessaging.icp && coreMessaging.icp.length > 0 
       ? `ICP: ${coreMessaging.icp.join(', ')}\n`
       : '';
 
-    return `Based on these successful positioning examples:
-
-${context}
+    return renderPrompt(RAG_PROMPT_ID, {
+      context,
+      primaryAnchor: coreMessaging.primaryAnchor.content,
+      primaryAnchorType: coreMessaging.primaryAnchor.type,
+      secondaryAnchor: coreMessaging.secondaryAnchor.content,
+      secondaryAnchorType: coreMessaging.secondaryAnchor.type,
+      icpLine: icpText,
+      icpList: coreMessaging.icp.join(', '),
+      problem: coreMessaging.problem,
+      differentiator: coreMessaging.differentiator,
+      problemExcerpt: coreMessaging.problem.substring(0, 80),
+      differentiatorExcerpt: coreMessaging.differentiator.substring(0, 80),
+      variantCount: String(HEADLINE_VARIANT_COUNT),
+      lockedContext: this.buildLockedContext(lockedSections),
+      tone: coreMessaging.tone || DEFAULT_TONE,
+      toneGuidance: TONE_GUIDANCE[coreMessaging.tone || DEFAULT_TONE]
+    }, version);
+  }
 
-Create positioning for:
-Primary Anchor: ${coreMessaging.primaryAnchor.content} (${coreMessaging.primaryAnchor.type})
-Secondary Anchor: ${coreMessaging.secondaryAnchor.content} (${coreMessaging.secondaryAnchor.type})
-${icpText}Problem: ${coreMessaging.problem}
-Differentiator: ${coreMessaging.differentiator}
+  private buildRefinementPrompt(coreMessaging: CoreMessaging, instruction: string, lockedSections: LockedSections): RenderedPrompt {
+    return renderPrompt(REFINEMENT_PROMPT_ID, {
+      instruction: instruction.trim(),
+      primaryAnchor: coreMessaging.primaryAnchor.content,
+      lockedContext: this.buildLockedContext(lockedSections)
+    });
+  }
 
-POSITIONING RULES - CRITICAL:
-- HEADLINE must include BOTH anchors: "${coreMessaging.primaryAnchor.content}" for "${coreMessaging.secondaryAnchor.content} ${coreMessaging.icp.join(', ')}"
-- Do NOT add extra details like employee counts or company sizes - keep it natural
-- SUBHEADLINE must be concise (1-2 sentences max) combining problem + solution
-- Keep the core meaning from: "${coreMessaging.problem.substring(0, 80)}..." 
-- And solution: "${coreMessaging.differentiator.substring(0, 80)}..."
-- CRITICAL: Ensure smooth logical flow between problem and solution
-- Use proper transitions: "While X happens, Y solves it" OR "X creates problems. Y provides the solution" 
-- Avoid awkward "but" connections that don't flow logically
-- Make it flow naturally but KEEP IT CONCISE - avoid long explanations
-- NO generic positioning language: avoid "say goodbye", "transform", "unlock", etc.
-- Focus on specific, concrete benefits
+  // Drop empty locks so they neither reach the prompt nor split the cache
+  private normalizeLockedSections(lockedSections: LockedSections = {}): LockedSections {
+    const normalized: LockedSections = {};
+    GENERATED_SECTIONS.forEach(section => {
+      const text = lockedSections[section]?.trim();
+      if (text) normalized[section] = text;
+    });
+    return normalized;
+  }
 
-Generate professional positioning copy:
+  // Prompt block listing the locked sections as fixed context
+  private buildLockedContext(lockedSections: LockedSections): string {
+    const lines = GENERATED_SECTIONS
+      .filter(section => lockedSections[section])
+      .map(section => `- ${section}: "${lockedSections[section]}"`);
+    if (lines.length === 0) return '';
 
-Format your response exactly like this:
-HEADLINE: [primary anchor] for [secondary anchor] [ICP target] (natural phrasing, no extra details)
-SUBHEADLINE: [concise problem + solution in 1-2 sentences]
-OPPORTUNITY: [market opportunity statement referencing specific segments]`;
+    return `FIXED SECTIONS - the user locked these. Repeat them word for word in every variant and write the other sections to fit them:\n${lines.join('\n')}\n\n`;
   }
 
-  // Parse generated response
-  private parseResponse(generatedText: string, coreMessaging?: CoreMessaging): GeneratedContent {
-    console.log('Raw generated content:', generatedText);
-    
-    const lines = generatedText.split('\n').filter(line => line.trim());
-    
-    let headline = '';
-    let subheadline = '';
-    let opportunity = '';
-
-    for (const line of lines) {
-      if (line.startsWith('HEADLINE:')) {
-        headline = line.replace('HEADLINE:', '').trim();
-      } else if (line.startsWith('SUBHEADLINE:')) {
-        subheadline = line.replace('SUBHEADLINE:', '').trim();
-      } else if (line.startsWith('OPPORTUNITY:')) {
-        opportunity = line.replace('OPPORTUNITY:', '').trim();
-        // Handle multi-line opportunity statements
-        const currentIndex = lines.indexOf(line);
-        let nextIndex = currentIndex + 1;
-        while (nextIndex < lines.length && !lines[nextIndex].includes(':')) {
-          opportunity += ' ' + lines[nextIndex].trim();
-          nextIndex++;
-        }
-      }
-    }
-
-    // If parsing failed, the content might not be properly formatted
-    if (!headline && !subheadline && !opportunity) {
-      // Try to extract content from unformatted response
-      const cleanedText = generatedText.replace(/^Solve\s*/i, '').trim();
-      const sentences = cleanedText.split(/[.!?]+/).filter(s => s.trim());
-      
-      if (sentences.length >= 2) {
-        headline = sentences[0].trim();
-        subheadline = sentences.slice(1).join('. ').trim();
-        // Ensure proper capitalization
-        headline = headline.charAt(0).toUpperCase() + headline.slice(1);
-        subheadline = subheadline.charAt(0).toUpperCase() + subheadline.slice(1);
-      }
-    }
+  // Parse and validate the structured JSON response; the best-ranked variant becomes the primary copy.
+  // Locked sections overwrite whatever the model wrote for them.
+  private parseResponse(generatedText: string, coreMessaging?: CoreMessaging, lockedSections: LockedSections = {}): GeneratedContent {
+    const copies = parseStructuredVariants(generatedText).map(copy => ({ ...copy, ...lockedSections }));
+    const variants = coreMessaging
+      ? rankVariants(copies, coreMessaging)
+      : copies.map(copy => ({ ...copy, score: 0, issues: [] }));
 
-    const result = {
-      headline: headline || 'Professional solution for your needs',
-      subheadline: subheadline || 'Streamline your workflow without complexity', 
-      thesis: [], // Keep user input from form
-      risks: [], // Keep user input from form
-      opportunity: opportunity || 'Significant market opportunity for targeted solutions'
+    return {
+      ...buildGeneratedContent(variants[0], generatedText, coreMessaging),
+      ...(variants.length > 1 ? { variants, selectedVariant: 0 } : {})
     };
-
-    // Log color mappings for debugging
-    if (coreMessaging) {
-      this.logColorMappings(result, coreMessaging);
-    }
-    
-    return result;
   }
 
-  // Identify which parts of generated text came from problem vs differentiator
-  private identifyGeneratedPhrases(generatedText: string, _coreMessaging: CoreMessaging): Array<{text: string, color: string, type: string}> {
-    const phrases: Array<{text: string, color: string, type: string}> = [];
-    
-    // Split generated text into logical sections (split on commas and conjunctions too)
-    const sentences = generatedText.split(/[.!?]+|,\s*but\s+|,\s*however\s+|,\s*and\s+our\s+/).filter(s => s.trim());
-    
-    // Key problem indicators (words that suggest this part is about the problem)
-    const problemIndicators = [
-      'lack', 'no', 'without', 'difficult', 'challenge', 'issue', 'problem', 'struggle', 
-      'fail', 'unable', 'can\'t', 'don\'t', 'until', 'before', 'complain', 'frustrated',
-      'slow', 'manual', 'inefficient', 'time-consuming', 'expensive', 'costly'
-    ];
-    
-    // Key solution indicators (words that suggest this part is about the solution)
-    const solutionIndicators = [
-      'predicts', 'provides', 'enables', 'allows', 'helps', 'gives', 'offers', 'delivers',
-      'our platform', 'our solution', 'we', 'automatically', 'proactive', 'advance',
-      'real-time', 'instant', 'fast', 'efficient', 'easy', 'simple', 'automated'
-    ];
-    
-    sentences.forEach(sentence => {
-      const lowerSentence = sentence.toLowerCase();
-      
-      // Count problem vs solution indicators
-      const problemScore = problemIndicators.reduce((score, indicator) => 
-        score + (lowerSentence.includes(indicator) ? 1 : 0), 0
-      );
-      
-      const solutionScore = solutionIndicators.reduce((score, indicator) => 
-        score + (lowerSentence.includes(indicator) ? 1 : 0), 0
-      );
-      
-      // Classify the sentence and break it into meaningful chunks
-      if (problemScore > solutionScore && problemScore > 0) {
-        // This sentence is about the problem
-        const chunks = this.breakIntoChunks(sentence.trim(), 4, 8);
-        chunks.forEach(chunk => {
-          phrases.push({
-            text: chunk,
-            color: 'RED',
-            type: 'Generated Problem Section'
-          });
-        });
-      } else if (solutionScore > 0) {
-        // This sentence is about the solution
-        const chunks = this.breakIntoChunks(sentence.trim(), 4, 8);
-        chunks.forEach(chunk => {
-          phrases.push({
-            text: chunk,
-            color: 'GREEN',
-            type: 'Generated Solution Section'
-          });
-        });
+  // Cache management
+  // Content-addressed: SHA-256 of every input that can change the output, canonically serialized
+  private async generateCacheKey(
+    coreMessaging: CoreMessaging,
+    settings: GenerationSettings,
+    promptRef: PromptRef,
+    promptTemplate: string,
+    lockedSections: LockedSections,
+    exampleSelection?: ExampleSelection
+  ): Promise<string> {
+    const { provider, model } = await this.resolveProviderAndModel(settings);
+
+    return this.hashString(buildGenerationCacheKeyMaterial({
+      coreMessaging,
+      settings,
+      provider,
+      model,
+      prompt: promptRef,
+      promptTemplate,
+      variantCount: HEADLINE_VARIANT_COUNT,
+      lockedSections,
+      exampleSelection: exampleSelection && {
+        pinned: exampleSelection.pinned.map(example => example.id),
+        excluded: exampleSelection.excluded.map(example => example.id)
       }
-    });
-    
-    return phrases;
+    }));
   }
-  
-  // Break text into meaningful chunks of specified word length
-  private breakIntoChunks(text: string, minWords: number, maxWords: number): string[] {
-    const words = text.split(' ').filter(w => w.length > 0);
-    const chunks: string[] = [];
-    
-    // Create overlapping chunks
-    for (let i = 0; i <= words.length - minWords; i++) {
-      const chunkLength = Math.min(maxWords, words.length - i);
-      if (chunkLength >= minWords) {
-        const chunk = words.slice(i, i + chunkLength).join(' ');
-        chunks.push(chunk);
-      }
-    }
-    
-    // Also add the full sentence if it's not too long
-    if (words.length <= maxWords) {
-      chunks.push(text);
+
+  // Provider and model the backend will actually use, so a changed default never serves stale copy
+  private async resolveProviderAndModel(settings: GenerationSettings): Promise<{ provider: string; model: string }> {
+    const requested = settings.provider || import.meta.env.VITE_LLM_PROVIDER || '';
+    const status = await this.getBackendLLMStatus();
+
+    if (!status) {
+      return { provider: requested || 'default', model: settings.model || 'default' };
     }
-    
-    return [...new Set(chunks)]; // Remove duplicates
+
+    // Mock mode overrides any requested provider on the server
+    const provider = status.mockMode ? 'mock' : requested || status.default;
+    const defaultModel = status.providers.find(entry => entry.name === provider)?.completionModel;
+    return { provider, model: settings.model || defaultModel || 'default' };
   }
 
-  // Color mapping debug logger
-  private logColorMappings(result: GeneratedContent, coreMessaging: CoreMessaging): void {
-    console.log('🎨 COLOR MAPPING DEBUG:');
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    
-    const fullText = `${result.headline} ${result.subheadline}`;
-    
-    // Define what should be highlighted as what color
-    const mappings = [
-      { 
-        text: coreMessaging.primaryAnchor.content, 
-        color: 'YELLOW', 
-        type: 'Primary Anchor' 
-      },
-      { 
-        text: coreMessaging.secondaryAnchor.content, 
-        color: 'BLUE', 
-        type: 'Secondary Anchor' 
-      }
-    ];
-    
-    // Add ICP segments
-    if (coreMessaging.icp && coreMessaging.icp.length > 0) {
-      coreMessaging.icp.forEach(icpSegment => {
-        if (icpSegment && icpSegment.trim()) {
-          mappings.push({ 
-            text: icpSegment.trim(), 
-            color: 'BLUE', 
-            type: 'ICP Segment' 
-          });
-        }
-      });
-    }
-    
-    // Identify which parts of the GENERATED text came from problem/differentiator
-    const generatedPhrases = this.identifyGeneratedPhrases(fullText, coreMessaging);
-    generatedPhrases.forEach(phrase => {
-      mappings.push(phrase);
-    });
-    
-    // Log each mapping and check if it appears in the generated text
-    mappings.forEach(mapping => {
-      const found = fullText.toLowerCase().includes(mapping.text.toLowerCase());
-      const status = found ? '✅' : '❌';
-      console.log(`${status} ${mapping.color}: "${mapping.text}" (${mapping.type}) ${found ? '- FOUND' : '- NOT FOUND'}`);
-    });
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('📝 Generated Text:', fullText);
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  // Embedding model the backend uses for queries (it embeds with its default provider); null while unknown
+  private async resolveEmbeddingModel(): Promise<string | null> {
+    const status = await this.getBackendLLMStatus();
+    if (!status) return null;
+
+    // Mock mode overrides the default provider on the server
+    const provider = status.mockMode ? 'mock' : status.default;
+    return status.providers.find(entry => entry.name === provider)?.embeddingModel || null;
   }
 
-  // Cache management
-  private async generateCacheKey(coreMessaging: CoreMessaging, settings: GenerationSettings): Promise<string> {
-    const keyData = {
-      primary: coreMessaging.primaryAnchor.content.toLowerCase().trim(),
-      problem: coreMessaging.problem.substring(0, 50).toLowerCase(),
-      diff: coreMessaging.differentiator.substring(0, 50).toLowerCase(),
-      temp: Math.round(settings.temperature * 10),
-      top_p: Math.round(settings.top_p * 10)
-    };
-    
-    return this.hashString(JSON.stringify(keyData));
+  private getBackendLLMStatus(): Promise<BackendLLMStatus | null> {
+    if (!this.backendLLMStatus) {
+      this.backendLLMStatus = fetch(`${this.backendUrl}/health`)
+        .then(response => (response.ok ? response.json() : null))
+        .then(data => (data?.llm as BackendLLMStatus | undefined) || null)
+        .catch(() => null)
+        .then(status => {
+          // Retry on the next request instead of remembering an outage
+          if (!status) this.backendLLMStatus = null;
+          return status;
+        });
+    }
+    return this.backendLLMStatus;
   }
 
   // Helper method for hashing using Web Crypto API
@@ -494,24 +1072,11 @@ OPPORTUNITY: [market opportunity statement referencing specific segments]`;
   }
 
   private async getCachedResult(cacheKey: string): Promise<GeneratedContent | null> {
+    if (!this.store) return null;
+
     try {
-      const { data } = await this.supabase
-        .from('generation_cache')
-        .select('content')
-        .eq('cache_key', cacheKey)
-        .gt('expires_at', new Date().toISOString())
-        .single();
-
-      if (data) {
-        // Update hit count (ignore errors if function doesn't exist)
-        try {
-          await this.supabase.rpc('increment_cache_hit', { cache_key: cacheKey });
-        } catch (error) {
-          console.log('Cache hit tracking unavailable');
-        }
-        
-        return data.content as GeneratedContent;
-      }
+      const content = await this.store.getCachedGeneration(cacheKey);
+      if (content) return content as GeneratedContent;
     } catch (error) {
       console.log('No cached result found');
     }
@@ -519,17 +1084,71 @@ OPPORTUNITY: [market opportunity statement referencing specific segments]`;
   }
 
   private async cacheResult(cacheKey: string, result: GeneratedContent): Promise<void> {
+    if (!this.store) return;
+
     try {
-      await this.supabase.from('generation_cache').upsert({
-        cache_key: cacheKey,
-        content: result,
-        expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString() // 7 days
-      });
+      await this.store.cacheGeneration(cacheKey, result, new Date(Date.now() + GENERATION_CACHE_TTL_MS));
     } catch (error) {
       console.error('Failed to cache result:', error);
     }
   }
 
+  private buildLiveProvenance(
+    output: GenerationOutput,
+    retrieval: RetrievalResult,
+    settings: GenerationSettings
+  ): GenerationProvenance {
+    return {
+      source: 'live',
+      cacheHit: false,
+      degraded: retrieval.degraded,
+      retrieval: retrieval.mode,
+      provider: output.provider,
+      model: output.model,
+      settings,
+      examples: this.toExampleRefs(retrieval.examples)
+    };
+  }
+
+  // Hand the inspector record to the caller; highlight checks run against the primary copy
+  private reportTrace(
+    options: GenerationOptions,
+    coreMessaging: CoreMessaging,
+    trace: Omit<GenerationTrace, 'createdAt' | 'highlightChecks'>
+  ): void {
+    options.onTrace?.({
+      ...trace,
+      createdAt: new Date(),
+      highlightChecks: trace.content ? checkHighlightMappings(trace.content, coreMessaging) : []
+    });
+  }
+
+  private reportValidationFailure(
+    options: GenerationOptions,
+    coreMessaging: CoreMessaging,
+    kind: GenerationTrace['kind'],
+    prompt: RenderedPrompt | undefined,
+    examples: ExampleRef[],
+    error: GenerationValidationError
+  ): void {
+    this.reportTrace(options, coreMessaging, {
+      kind,
+      prompt,
+      examples,
+      rawOutput: error.rawContent,
+      parse: { ok: false, attempts: error.attempts, issues: error.issues, variantCount: 0 }
+    });
+  }
+
+  private toExampleRefs(examples: PositioningExample[]): ExampleRef[] {
+    return examples.map(example => ({
+      id: example.id,
+      company: example.company,
+      similarity: example.similarity,
+      ...(example.match ? { match: example.match } : {})
+    }));
+  }
+
   // Fallback methods when vector search fails
   private getFallbackExamples(): PositioningExample[] {
     // Return hardcoded high-effectiveness examples
@@ -571,8 +1190,10 @@ OPPORTUNITY: [market opportunity statement referencing specific segments]`;
 
   // Cache management methods
   async clearGenerationCache(): Promise<void> {
+    if (!this.store) return;
+
     try {
-      await this.supabase.from('generation_cache').delete().gt('id', 0);
+      await this.store.clearGenerationCache();
       console.log('Generation cache cleared');
     } catch (error) {
       console.error('Failed to clear generation cache:', error);
@@ -584,6 +1205,8 @@ OPPORTUNITY: [market opportunity statement referencing specific segments]`;
     return {
       isInitialized: this.isInitialized,
       backendUrl: this.backendUrl,
+      hasSupabase: this.store?.name === 'supabase',
+      vectorStore: this.store?.name ?? null,
       cacheSize: this.embeddingCache.size
     };
   }
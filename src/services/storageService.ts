@@ -1,9 +1,10 @@
-import type { PositioningVersion } from '@/types';
+import type { GenerationPreset, GenerationRecord, PositioningVersion, RefinementTurn } from '@/types';
 
 const STORAGE_KEYS = {
   VERSIONS: 'positioning-visualizer-versions',
   CURRENT_VERSION_ID: 'positioning-visualizer-current-version-id',
-  LAST_SAVED: 'positioning-visualizer-last-saved'
+  LAST_SAVED: 'positioning-visualizer-last-saved',
+  PRESETS: 'positioning-visualizer-generation-presets'
 };
 
 class StorageService {
@@ -48,7 +49,15 @@ class StorageService {
       // Convert ISO strings back to Date objects
       const versions = parsedVersions.map((version: any) => ({
         ...version,
-        createdAt: new Date(version.createdAt)
+        createdAt: new Date(version.createdAt),
+        refinements: version.refinements?.map((turn: RefinementTurn) => ({
+          ...turn,
+          createdAt: new Date(turn.createdAt)
+        })),
+        history: version.history?.map((record: GenerationRecord) => ({
+          ...record,
+          createdAt: new Date(record.createdAt)
+        }))
       }));
       
       console.log('Versions loaded from localStorage:', versions.length);
@@ -80,6 +89,29 @@ class StorageService {
     }
   }
 
+  // User-defined generation presets (built-ins live in src/data/generationPresets.ts)
+  savePresets(presets: GenerationPreset[]): void {
+    if (!this.isLocalStorageAvailable()) return;
+
+    try {
+      localStorage.setItem(STORAGE_KEYS.PRESETS, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+    } catch (error) {
+      console.error('Failed to save generation presets:', error);
+    }
+  }
+
+  loadPresets(): GenerationPreset[] {
+    if (!this.isLocalStorageAvailable()) return [];
+
+    try {
+      const savedPresets = localStorage.getItem(STORAGE_KEYS.PRESETS);
+      return savedPresets ? JSON.parse(savedPresets) : [];
+    } catch (error) {
+      console.error('Failed to load generation presets:', error);
+      return [];
+    }
+  }
+
   getLastSavedTime(): Date | null {
     if (!this.isLocalStorageAvailable()) return null;
     
@@ -0,0 +1,18 @@
+import { createClient } from '@supabase/supabase-js';
+import { LocalVectorStore } from './localVectorStore';
+import { SupabaseVectorStore } from './supabaseVectorStore';
+import type { VectorStore } from './types';
+
+export * from './types';
+
+// VITE_VECTOR_STORE=local uses the API server's JSON-backed store; otherwise Supabase when configured.
+// Null means neither is available: retrieval falls back to the built-in example and nothing is cached.
+export function createVectorStore(backendUrl: string): VectorStore | null {
+  if (import.meta.env.VITE_VECTOR_STORE === 'local') {
+    return new LocalVectorStore(backendUrl);
+  }
+
+  const url = import.meta.env.VITE_SUPABASE_URL;
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+  return url && anonKey ? new SupabaseVectorStore(createClient(url, anonKey)) : null;
+}
@@ -0,0 +1,75 @@
+import type { ExampleRow, SimilarExampleRow, SimilarExamplesQuery, VectorStore } from './types';
+
+// Client for the API server's local vector store (VECTOR_STORE=local on the server, see server/store)
+export class LocalVectorStore implements VectorStore {
+  readonly name = 'local' as const;
+  private baseUrl: string;
+
+  constructor(backendUrl: string) {
+    this.baseUrl = `${backendUrl}/api/store`;
+  }
+
+  async countExamples(): Promise<number> {
+    return (await this.listExamples()).length;
+  }
+
+  async listExamples(ids?: number[]): Promise<ExampleRow[]> {
+    if (ids && ids.length === 0) return [];
+    const query = ids ? `?ids=${ids.join(',')}` : '';
+    const { examples } = await this.request<{ examples: ExampleRow[] }>(`/examples${query}`);
+    return examples;
+  }
+
+  async findSimilarExamples(query: SimilarExamplesQuery): Promise<SimilarExampleRow[]> {
+    const { examples } = await this.request<{ examples: SimilarExampleRow[] }>('/find-similar-examples', {
+      method: 'POST',
+      body: JSON.stringify(query)
+    });
+    return examples;
+  }
+
+  async getCachedEmbedding(textHash: string, model: string): Promise<number[] | null> {
+    const path = `/embedding-cache/${encodeURIComponent(textHash)}?model=${encodeURIComponent(model)}`;
+    const result = await this.request<{ embedding: number[] }>(path, {}, true);
+    return result?.embedding ?? null;
+  }
+
+  async cacheEmbedding(text: string, textHash: string, embedding: number[], model: string): Promise<void> {
+    await this.request('/embedding-cache', {
+      method: 'POST',
+      body: JSON.stringify({ text, text_hash: textHash, embedding, embedding_model: model })
+    });
+  }
+
+  async getCachedGeneration(cacheKey: string): Promise<unknown | null> {
+    const result = await this.request<{ content: unknown }>(`/generation-cache/${encodeURIComponent(cacheKey)}`, {}, true);
+    return result?.content ?? null;
+  }
+
+  async cacheGeneration(cacheKey: string, content: unknown, expiresAt: Date): Promise<void> {
+    await this.request(`/generation-cache/${encodeURIComponent(cacheKey)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ content, expires_at: expiresAt.toISOString() })
+    });
+  }
+
+  async clearGenerationCache(): Promise<void> {
+    await this.request('/generation-cache', { method: 'DELETE' });
+  }
+
+  // JSON request against the store routes; with `allowMissing` a 404 resolves to null instead of throwing
+  private async request<T>(path: string, init?: RequestInit): Promise<T>;
+  private async request<T>(path: string, init: RequestInit, allowMissing: true): Promise<T | null>;
+  private async request<T>(path: string, init: RequestInit = {}, allowMissing = false): Promise<T | null> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    if (allowMissing && response.status === 404) return null;
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(`Local vector store request failed (${response.status}): ${body.error || response.statusText}`);
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,93 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ExampleRow, SimilarExampleRow, SimilarExamplesQuery, VectorStore } from './types';
+
+// Example table columns read by the app (everything but the embedding)
+const EXAMPLE_COLUMNS = 'id, company, tagline, anchor_type, primary_anchor, problem, differentiator, industry, effectiveness, icp, tags, tone, structure, secondary_anchors, metadata';
+
+export class SupabaseVectorStore implements VectorStore {
+  readonly name = 'supabase' as const;
+  private client: SupabaseClient;
+
+  constructor(client: SupabaseClient) {
+    this.client = client;
+  }
+
+  async countExamples(): Promise<number> {
+    const { count, error } = await this.client
+      .from('positioning_examples_v2')
+      .select('*', { count: 'exact', head: true });
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async listExamples(ids?: number[]): Promise<ExampleRow[]> {
+    if (ids && ids.length === 0) return [];
+
+    const query = this.client.from('positioning_examples_v2').select(EXAMPLE_COLUMNS);
+    const { data, error } = await (ids ? query.in('id', ids) : query);
+    if (error) throw error;
+
+    const rows = (data || []) as ExampleRow[];
+    if (!ids) return rows;
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return ids.flatMap(id => {
+      const row = byId.get(id);
+      return row ? [row] : [];
+    });
+  }
+
+  async findSimilarExamples(query: SimilarExamplesQuery): Promise<SimilarExampleRow[]> {
+    const { data, error } = await this.client.rpc('find_similar_examples', query);
+    if (error) throw error;
+    return (data || []) as SimilarExampleRow[];
+  }
+
+  async getCachedEmbedding(textHash: string, model: string): Promise<number[] | null> {
+    const { data, error } = await this.client
+      .from('embedding_cache')
+      .select('embedding')
+      .eq('text_hash', textHash)
+      .eq('embedding_model', model)
+      .maybeSingle();
+    if (error) throw error;
+    return data?.embedding ?? null;
+  }
+
+  async cacheEmbedding(text: string, textHash: string, embedding: number[], model: string): Promise<void> {
+    const { error } = await this.client
+      .from('embedding_cache')
+      .upsert(
+        { text, text_hash: textHash, embedding, embedding_model: model, embedding_dimensions: embedding.length },
+        { onConflict: 'text_hash,embedding_model', ignoreDuplicates: true }
+      );
+    if (error) throw error;
+  }
+
+  async getCachedGeneration(cacheKey: string): Promise<unknown | null> {
+    const { data, error } = await this.client
+      .from('generation_cache')
+      .select('content')
+      .eq('cache_key', cacheKey)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    // Hit tracking is best effort; older databases lack the function
+    const { error: hitError } = await this.client.rpc('increment_cache_hit', { cache_key: cacheKey });
+    if (hitError) console.log('Cache hit tracking unavailable');
+    return data.content;
+  }
+
+  async cacheGeneration(cacheKey: string, content: unknown, expiresAt: Date): Promise<void> {
+    const { error } = await this.client
+      .from('generation_cache')
+      .upsert({ cache_key: cacheKey, content, expires_at: expiresAt.toISOString() }, { onConflict: 'cache_key' });
+    if (error) throw error;
+  }
+
+  async clearGenerationCache(): Promise<void> {
+    const { error } = await this.client.from('generation_cache').delete().gt('id', 0);
+    if (error) throw error;
+  }
+}
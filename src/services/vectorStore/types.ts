@@ -0,0 +1,64 @@
+// Storage behind example retrieval and caching. Row shapes follow the Supabase tables in supabase-setup.sql;
+// the local store (server/store) serves the same shapes from a JSON file.
+
+export type VectorStoreName = 'supabase' | 'local';
+
+// positioning_examples_v2 without the embedding
+export interface ExampleRow {
+  id: number;
+  company: string;
+  tagline: string;
+  anchor_type: string;
+  primary_anchor: string;
+  problem: string;
+  differentiator: string;
+  industry: string;
+  effectiveness: string;
+  icp: string[];
+  tags: string[];
+  tone: string;
+  structure: string;
+  secondary_anchors: Record<string, unknown>;
+  metadata?: { main_value_props?: string[]; use_cases?: string[] };
+}
+
+// Arguments of find_similar_examples; industries normalised ("market_research"), tones lowercase
+export interface SimilarExamplesQuery {
+  query_embedding: number[];
+  query_embedding_model: string; // Rows embedded by any other model are never compared
+  match_threshold: number;
+  match_count: number;
+  filter_anchor_types?: string[] | null;
+  filter_industries?: string[] | null;
+  filter_effectiveness?: string[] | null;
+  filter_tones?: string[] | null;
+  boost_anchor_type?: string | null;
+  boost_industry?: string | null;
+  boost_effectiveness?: string | null;
+  boost_tone?: string | null;
+  boost_weight?: number;
+}
+
+// find_similar_examples rows: no metadata, plus raw similarity and the boosted score it is ordered by
+export interface SimilarExampleRow extends Omit<ExampleRow, 'metadata'> {
+  similarity: number;
+  score: number;
+}
+
+// Every method throws when the store cannot be reached; callers decide how to degrade
+export interface VectorStore {
+  readonly name: VectorStoreName;
+  countExamples(): Promise<number>;
+  // Rows by id in the order given (missing ids skipped), or every row
+  listExamples(ids?: number[]): Promise<ExampleRow[]>;
+  findSimilarExamples(query: SimilarExamplesQuery): Promise<SimilarExampleRow[]>;
+  // Cached embeddings are per model
+  getCachedEmbedding(textHash: string, model: string): Promise<number[] | null>;
+  // The first embedding stored for a text and model wins
+  cacheEmbedding(text: string, textHash: string, embedding: number[], model: string): Promise<void>;
+  // Unexpired content for the key, counting the hit
+  getCachedGeneration(cacheKey: string): Promise<unknown | null>;
+  // Replaces any entry for the key
+  cacheGeneration(cacheKey: string, content: unknown, expiresAt: Date): Promise<void>;
+  clearGenerationCache(): Promise<void>;
+}
@@ -12,7 +12,38 @@ export interface CoreMessaging {
   icp: string[]; // Ideal Customer Profile segments
   thesis: string[];
   risks: string[];
+  tone?: ToneSelector; // Voice of the generated copy; defaults to 'professional'
   generationSettings?: GenerationSettings;
+  retrieval?: RetrievalSettings;
+}
+
+export type AnchorType = 'Product Category' | 'Use Case' | 'Competitive Alternative';
+
+export type ExampleEffectiveness = 'high' | 'medium' | 'low';
+
+// Which examples may be used as prompt context (filters) and which are preferred (boosts)
+export interface RetrievalSettings {
+  filters?: RetrievalFilters;
+  boosts?: RetrievalBoosts;
+  exampleCount?: number; // Examples in the prompt, 1 - 6; defaults to 3
+  diversity?: number; // 0 - 1 MMR trade-off: 0 ranks purely by relevance, 1 purely by difference from the examples already picked
+}
+
+// Hard filters on example metadata; a missing or empty list allows every value
+export interface RetrievalFilters {
+  anchorTypes?: AnchorType[];
+  industries?: string[]; // Matched case-insensitively, spaces and underscores alike
+  effectiveness?: ExampleEffectiveness[];
+  tones?: ToneSelector[];
+}
+
+// Soft preferences: a matching example ranks higher but others can still be used.
+// The tone boost follows the selected tone unless set here.
+export interface RetrievalBoosts {
+  anchorType?: AnchorType;
+  industry?: string;
+  effectiveness?: ExampleEffectiveness;
+  tone?: ToneSelector;
 }
 
 export interface PositioningVersion {
@@ -20,6 +51,69 @@ export interface PositioningVersion {
   name: string;
   coreMessaging: CoreMessaging;
   generatedContent?: GeneratedContent;
+  refinements?: RefinementTurn[]; // Refinement instruction history, oldest first
+  history?: GenerationRecord[]; // Every generation and refinement, oldest first; only the selected variant ever changes
+  currentGenerationId?: string; // History entry generatedContent came from
+  exampleSelection?: ExampleSelection;
+  createdAt: Date;
+}
+
+// Corpus examples the user pinned into, or kept out of, this version's prompt context
+export interface ExampleSelection {
+  pinned: ExampleChoice[];
+  excluded: ExampleChoice[];
+}
+
+export interface ExampleChoice {
+  id: number;
+  company: string;
+}
+
+// Example from the retrieval corpus (positioning_examples_v2), as listed to users
+export interface LibraryExample {
+  id: number;
+  company: string;
+  tagline: string;
+  anchorType: string;
+  primaryAnchor: string;
+  industry: string;
+  effectiveness: string;
+  problem: string;
+  differentiator: string;
+  icp: string[];
+  tone: string;
+  structure: string;
+  valueProps: string[];
+  builtIn?: boolean; // From src/data/positioningExamples.ts; not in the example table, so it cannot be pinned
+}
+
+// Library search hits, best first. Semantic search ranks by embedding similarity; lexical (BM25) stands in
+// when no query embedding can be produced.
+export interface ExampleSearchResult {
+  mode: 'semantic' | 'lexical';
+  matches: Array<{ id: number; score: number }>;
+}
+
+// One entry in a version's generation history
+export interface GenerationRecord {
+  id: string;
+  createdAt: Date;
+  kind: 'generation' | 'refinement';
+  instruction?: string; // Refinement instruction
+  input: CoreMessaging; // Snapshot of the form inputs used
+  settings: GenerationSettings;
+  provider?: string;
+  model?: string;
+  examples: ExampleRef[]; // Examples retrieved as prompt context
+  content: GeneratedContent; // As generated, with the top-ranked variant as primary
+  selectedVariant?: number; // Variant picked on the canvas since; restoring the entry brings it back
+}
+
+// One conversational refinement: the instruction and the copy before and after it
+export interface RefinementTurn {
+  instruction: string;
+  previous: GeneratedCopy;
+  revised: GeneratedCopy;
   createdAt: Date;
 }
 
@@ -29,11 +123,112 @@ export interface GeneratedContent {
   thesis: string[];
   risks: string[];
   opportunity: string;
+  prompt?: PromptRef; // Template the copy was generated from
+  variants?: HeadlineVariant[]; // Ranked candidates, best first; headline/subheadline/opportunity hold the chosen one
+  selectedVariant?: number; // Index into variants of the copy shown as primary
+  lockedSections?: GeneratedSection[]; // Kept as-is and passed to the prompt as fixed context on regeneration
+  provenance?: GenerationProvenance;
+}
+
+// Where generated copy came from. The prompt template is recorded on GeneratedContent.prompt.
+export interface GenerationProvenance {
+  source: GenerationSource;
+  cacheHit: boolean;
+  degraded?: boolean; // Live output built on the built-in fallback example because vector search was unavailable
+  provider?: string; // As reported by the backend
+  model?: string;
+  settings?: GenerationSettings;
+  retrieval?: RetrievalMode;
+  examples: ExampleRef[];
+}
+
+// live: LLM call; cache: generation_cache hit; rag-fallback: SimpleRAGService.createFallbackContent;
+// app-fallback: the template copy App builds when generation throws
+export type GenerationSource = 'live' | 'cache' | 'rag-fallback' | 'app-fallback';
+
+// Retrieved example, as recorded alongside generated copy
+export interface ExampleRef {
+  id: number;
+  company: string;
+  similarity: number; // Vector cosine similarity; 0 when only the lexical search found it
+  match?: RetrievalMatch;
+}
+
+// How an example was found: the per-signal scores, their rank fusion and the reranked score it was ordered by
+export interface RetrievalMatch {
+  vector?: number;
+  lexical?: number; // BM25
+  fused: number; // Reciprocal rank fusion, 0 - 1
+  score: number;
+  pinned?: boolean; // Chosen by the user rather than retrieved
+}
+
+// hybrid: vector + lexical; lexical: no query embedding could be produced; fallback: built-in example only
+export type RetrievalMode = 'hybrid' | 'vector' | 'lexical' | 'fallback';
+
+export type GeneratedSection = 'headline' | 'subheadline' | 'opportunity';
+
+// The sections the model writes
+export type GeneratedCopy = Pick<GeneratedContent, GeneratedSection>;
+
+// Locked section text sent back to the model
+export type LockedSections = Partial<Record<GeneratedSection, string>>;
+
+export interface HeadlineVariant {
+  headline: string;
+  subheadline: string;
+  opportunity: string;
+  score: number; // 0 - 100 from the ranking step
+  issues: string[]; // Ranking deductions, e.g. missing anchor or banned phrase
+}
+
+// Inspector record of the last generation or refinement: what went in, what came back and how it was read
+export interface GenerationTrace {
+  kind: 'generation' | 'refinement';
+  createdAt: Date;
+  prompt?: { ref: PromptRef; text: string }; // Final prompt sent; absent for cache hits and retrieval failures
+  examples: ExampleRef[]; // find_similar_examples results, with similarity
+  rawOutput?: string; // Completion text of the last attempt
+  parse: TraceParseResult;
+  highlightChecks: HighlightCheck[];
+  content?: GeneratedContent; // Absent when generation failed
+}
+
+export interface TraceParseResult {
+  ok: boolean;
+  attempts: number; // Completions requested; 0 when served from cache or never reached the model
+  issues: string[]; // Validation issues from failed attempts, or the error that stopped generation
+  variantCount: number;
+}
+
+// Canvas highlight for an input phrase and whether it appears in the copy
+export interface HighlightCheck {
+  text: string;
+  color: string;
+  type: string; // e.g. 'Primary Anchor', 'Generated Problem Section'
+  found: boolean;
+}
+
+export interface PromptRef {
+  id: string;
+  version: number;
 }
 
 export interface GenerationSettings {
   temperature: number; // 0.0 - 1.0
   top_p: number; // 0.0 - 1.0
+  provider?: LLMProviderName; // Defaults to VITE_LLM_PROVIDER, then the server's LLM_PROVIDER
+  model?: string; // Defaults to the provider's configured completion model
+}
+
+export type LLMProviderName = 'openai' | 'local' | 'mock';
+
+// Named, reusable generation settings
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  settings: GenerationSettings;
+  builtIn?: boolean; // Shipped with the app; cannot be deleted
 }
 
 export interface TrainingExample {
@@ -0,0 +1,23 @@
+// Runs the offline embedding model off the main thread; see src/services/offlineEmbeddingService.ts
+import { embedOffline, type OfflineEmbeddingOptions } from '../lib/offlineEmbedding';
+
+export interface EmbeddingWorkerRequest {
+  id: number;
+  text: string;
+  options?: OfflineEmbeddingOptions;
+}
+
+export type EmbeddingWorkerResponse =
+  | { id: number; embedding: number[] }
+  | { id: number; error: string };
+
+self.onmessage = async (event: MessageEvent<EmbeddingWorkerRequest>) => {
+  const { id, text, options } = event.data;
+  let response: EmbeddingWorkerResponse;
+  try {
+    response = { id, embedding: await embedOffline(text, options) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
@@ -21,17 +21,24 @@ CREATE TABLE positioning_examples_v2 (
   structure TEXT,
   secondary_anchors JSONB, -- Store secondary anchors object as JSON
   embedding VECTOR(1536), -- OpenAI ada-002 embeddings
+  embedding_model TEXT, -- Model that produced embedding; queries from any other model skip the row
+  embedding_dimensions INTEGER,
+  embedding_local VECTOR(384), -- Offline model (Xenova/all-MiniLM-L6-v2), used when the backend is unreachable
+  embedding_local_model TEXT,
   metadata JSONB,
   created_at TIMESTAMP DEFAULT NOW()
 );
 
--- Embedding cache to reduce API costs
+-- Embedding cache to reduce API costs; one entry per text and model, at that model's dimension
 CREATE TABLE embedding_cache (
   id SERIAL PRIMARY KEY,
-  text TEXT UNIQUE NOT NULL,
-  text_hash TEXT UNIQUE NOT NULL,
-  embedding VECTOR(1536) NOT NULL,
-  created_at TIMESTAMP DEFAULT NOW()
+  text TEXT NOT NULL,
+  text_hash TEXT NOT NULL,
+  embedding VECTOR NOT NULL,
+  embedding_model TEXT NOT NULL,
+  embedding_dimensions INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (text_hash, embedding_model)
 );
 
 -- Generation cache for positioning outputs
@@ -46,17 +53,57 @@ CREATE TABLE generation_cache (
 
 -- Indexes for performance
 CREATE INDEX idx_positioning_embedding ON positioning_examples_v2 USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);
+-- Existing installs: ALTER TABLE positioning_examples_v2 ADD COLUMN embedding_local VECTOR(384);
+-- then fill it with npm run examples -- embed --offline
+CREATE INDEX idx_positioning_embedding_local ON positioning_examples_v2 USING ivfflat (embedding_local vector_cosine_ops) WITH (lists = 100);
 CREATE INDEX idx_positioning_anchor ON positioning_examples_v2(anchor_type);
 CREATE INDEX idx_positioning_industry ON positioning_examples_v2(industry);
 CREATE INDEX idx_embedding_hash ON embedding_cache(text_hash);
 CREATE INDEX idx_generation_cache_key ON generation_cache(cache_key);
 CREATE INDEX idx_generation_expires ON generation_cache(expires_at);
 
+-- Existing installs, embedding model tracking (rows embedded before it are assumed to be ada-002):
+-- ALTER TABLE positioning_examples_v2 ADD COLUMN embedding_model TEXT, ADD COLUMN embedding_dimensions INTEGER,
+--   ADD COLUMN embedding_local_model TEXT;
+-- UPDATE positioning_examples_v2 SET embedding_model = 'text-embedding-ada-002', embedding_dimensions = 1536
+--   WHERE embedding IS NOT NULL AND metadata->>'needs_embedding' IS DISTINCT FROM 'true';
+-- UPDATE positioning_examples_v2 SET embedding_local_model = 'Xenova/all-MiniLM-L6-v2' WHERE embedding_local IS NOT NULL;
+-- DROP TABLE embedding_cache; then re-run its CREATE TABLE and index above, and the find_similar_examples definition below.
+--
+-- Switching embedding model: set OPENAI_EMBEDDING_MODEL (or the provider's equivalent) and run
+-- npm run examples -- embed, which can be stopped and resumed. For a model of another dimension, first
+-- DROP INDEX idx_positioning_embedding;
+-- ALTER TABLE positioning_examples_v2 ALTER COLUMN embedding TYPE VECTOR(<dimensions>) USING NULL;
+-- and recreate the index; searches run lexical-only until the re-embed finishes.
+
 -- Vector similarity search function
+-- Optional metadata filters (NULL or empty = no filter) and boosts. Boosts add boost_weight to the score per
+-- matching column; rows are ordered by that score, while the threshold applies to the raw similarity. Boosts
+-- rerank the nearest max(match_count * 10, 50) rows that pass the threshold and filters.
+-- Industries are compared lowercased with spaces and hyphens as underscores ("market research" = "market_research");
+-- pass filter_industries and boost_industry in that form.
+-- A 384-dimension query_embedding (the offline model) is compared against embedding_local, any other
+-- against embedding. Given query_embedding_model, rows embedded by any other model are skipped, so vectors
+-- from different models are never compared.
+-- The signature changed from (vector, float, int) and then gained query_embedding_model; drop the old
+-- versions so calls are not ambiguous.
+DROP FUNCTION IF EXISTS find_similar_examples(vector, float, int);
+DROP FUNCTION IF EXISTS find_similar_examples(vector, float, int, text[], text[], text[], text[], text, text, text, text, float);
+
 CREATE OR REPLACE FUNCTION find_similar_examples(
-  query_embedding vector(1536),
+  query_embedding vector,
   match_threshold float DEFAULT 0.7,
-  match_count int DEFAULT 3
+  match_count int DEFAULT 3,
+  filter_anchor_types text[] DEFAULT NULL,
+  filter_industries text[] DEFAULT NULL,
+  filter_effectiveness text[] DEFAULT NULL,
+  filter_tones text[] DEFAULT NULL,
+  boost_anchor_type text DEFAULT NULL,
+  boost_industry text DEFAULT NULL,
+  boost_effectiveness text DEFAULT NULL,
+  boost_tone text DEFAULT NULL,
+  boost_weight float DEFAULT 0.05,
+  query_embedding_model text DEFAULT NULL
 )
 RETURNS TABLE(
   id integer,
@@ -73,32 +120,69 @@ RETURNS TABLE(
   tone text,
   structure text,
   secondary_anchors jsonb,
-  similarity float
+  similarity float,
+  score float
 )
 LANGUAGE plpgsql
 AS $$
+DECLARE
+  candidate_count int := greatest(match_count * 10, 50);
 BEGIN
-  RETURN QUERY
-  SELECT
-    p.id,
-    p.company,
-    p.tagline,
-    p.anchor_type,
-    p.primary_anchor,
-    p.problem,
-    p.differentiator,
-    p.industry,
-    p.effectiveness,
-    p.icp,
-    p.tags,
-    p.tone,
-    p.structure,
-    p.secondary_anchors,
-    1 - (p.embedding <=> query_embedding) as similarity
-  FROM positioning_examples_v2 p
-  WHERE 1 - (p.embedding <=> query_embedding) > match_threshold
-  ORDER BY p.embedding <=> query_embedding
-  LIMIT match_count;
+  -- One branch per column, each ordered by distance on that column alone, so its ivfflat index can serve the
+  -- nearest candidates; boosts then rerank those. A CASE over both columns would score every row.
+  IF vector_dims(query_embedding) = 384 THEN
+    RETURN QUERY
+    SELECT
+      p.id, p.company, p.tagline, p.anchor_type, p.primary_anchor, p.problem, p.differentiator, p.industry,
+      p.effectiveness, p.icp, p.tags, p.tone, p.structure, p.secondary_anchors,
+      p.similarity,
+      p.similarity
+        + CASE WHEN p.anchor_type = boost_anchor_type THEN boost_weight ELSE 0 END
+        + CASE WHEN regexp_replace(lower(trim(p.industry)), '[\s-]+', '_', 'g') = boost_industry THEN boost_weight ELSE 0 END
+        + CASE WHEN p.effectiveness = boost_effectiveness THEN boost_weight ELSE 0 END
+        + CASE WHEN lower(p.tone) = boost_tone THEN boost_weight ELSE 0 END as score
+    FROM (
+      SELECT e.*, 1 - (e.embedding_local <=> query_embedding) as similarity
+      FROM positioning_examples_v2 e
+      WHERE e.embedding_local <=> query_embedding < 1 - match_threshold
+        AND (query_embedding_model IS NULL OR e.embedding_local_model = query_embedding_model)
+        AND (filter_anchor_types IS NULL OR cardinality(filter_anchor_types) = 0 OR e.anchor_type = ANY(filter_anchor_types))
+        AND (filter_industries IS NULL OR cardinality(filter_industries) = 0 OR regexp_replace(lower(trim(e.industry)), '[\s-]+', '_', 'g') = ANY(filter_industries))
+        AND (filter_effectiveness IS NULL OR cardinality(filter_effectiveness) = 0 OR e.effectiveness = ANY(filter_effectiveness))
+        AND (filter_tones IS NULL OR cardinality(filter_tones) = 0 OR lower(e.tone) = ANY(filter_tones))
+      ORDER BY e.embedding_local <=> query_embedding
+      LIMIT candidate_count
+    ) p
+    -- By position: "score" alone would be ambiguous with the output column
+    ORDER BY 16 DESC
+    LIMIT match_count;
+  ELSE
+    RETURN QUERY
+    SELECT
+      p.id, p.company, p.tagline, p.anchor_type, p.primary_anchor, p.problem, p.differentiator, p.industry,
+      p.effectiveness, p.icp, p.tags, p.tone, p.structure, p.secondary_anchors,
+      p.similarity,
+      p.similarity
+        + CASE WHEN p.anchor_type = boost_anchor_type THEN boost_weight ELSE 0 END
+        + CASE WHEN regexp_replace(lower(trim(p.industry)), '[\s-]+', '_', 'g') = boost_industry THEN boost_weight ELSE 0 END
+        + CASE WHEN p.effectiveness = boost_effectiveness THEN boost_weight ELSE 0 END
+        + CASE WHEN lower(p.tone) = boost_tone THEN boost_weight ELSE 0 END as score
+    FROM (
+      SELECT e.*, 1 - (e.embedding <=> query_embedding) as similarity
+      FROM positioning_examples_v2 e
+      WHERE e.embedding <=> query_embedding < 1 - match_threshold
+        AND (query_embedding_model IS NULL OR e.embedding_model = query_embedding_model)
+        AND (filter_anchor_types IS NULL OR cardinality(filter_anchor_types) = 0 OR e.anchor_type = ANY(filter_anchor_types))
+        AND (filter_industries IS NULL OR cardinality(filter_industries) = 0 OR regexp_replace(lower(trim(e.industry)), '[\s-]+', '_', 'g') = ANY(filter_industries))
+        AND (filter_effectiveness IS NULL OR cardinality(filter_effectiveness) = 0 OR e.effectiveness = ANY(filter_effectiveness))
+        AND (filter_tones IS NULL OR cardinality(filter_tones) = 0 OR lower(e.tone) = ANY(filter_tones))
+      ORDER BY e.embedding <=> query_embedding
+      LIMIT candidate_count
+    ) p
+    -- By position: "score" alone would be ambiguous with the output column
+    ORDER BY 16 DESC
+    LIMIT match_count;
+  END IF;
 END;
 $$;
 